@@ -56,7 +56,10 @@ export default defineConfig({
             text: 'Safety',
             items: [
               { text: 'enforce-delete-with-where', link: '/rules/enforce-delete-with-where' },
-              { text: 'enforce-update-with-where', link: '/rules/enforce-update-with-where' }
+              { text: 'enforce-update-with-where', link: '/rules/enforce-update-with-where' },
+              { text: 'require-where-not-undefined', link: '/rules/require-where-not-undefined' },
+              { text: 'no-outer-db-in-transaction', link: '/rules/no-outer-db-in-transaction' },
+              { text: 'no-floating-query', link: '/rules/no-floating-query' }
             ]
           },
           {
@@ -64,6 +67,9 @@ export default defineConfig({
             items: [
               { text: 'enforce-snake-case-naming', link: '/rules/enforce-snake-case-naming' },
               { text: 'enforce-index-naming', link: '/rules/enforce-index-naming' },
+              { text: 'enforce-constraint-naming', link: '/rules/enforce-constraint-naming' },
+              { text: 'max-identifier-length', link: '/rules/max-identifier-length' },
+              { text: 'no-reserved-identifiers', link: '/rules/no-reserved-identifiers' },
               { text: 'require-timestamp-columns', link: '/rules/require-timestamp-columns' }
             ]
           },
@@ -80,7 +86,9 @@ export default defineConfig({
             text: 'Security (RLS)',
             items: [
               { text: 'require-rls-enabled', link: '/rules/require-rls-enabled' },
-              { text: 'prevent-rls-bypass', link: '/rules/prevent-rls-bypass' }
+              { text: 'prevent-rls-bypass', link: '/rules/prevent-rls-bypass' },
+              { text: 'no-unsafe-rls-policy', link: '/rules/no-unsafe-rls-policy' },
+              { text: 'no-unsafe-sql-raw', link: '/rules/no-unsafe-sql-raw' }
             ]
           }
         ]
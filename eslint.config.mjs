@@ -17,6 +17,7 @@ export default [
       globals: {
         require: "readonly",
         module: "readonly",
+        __dirname: "readonly",
       },
     },
     plugins: {
@@ -31,7 +32,7 @@ export default [
       "n/no-missing-import": "off", // TypeScript handles this
       "n/no-unsupported-features/es-syntax": "off", // We're using TypeScript
       "n/no-unpublished-import": ["error", {
-        allowModules: ["@typescript-eslint/utils", "@typescript-eslint/rule-tester", "vitest"],
+        allowModules: ["@typescript-eslint/utils", "@typescript-eslint/rule-tester", "eslint", "typescript", "vitest"],
       }],
       "n/no-unpublished-require": ["error", {
         allowModules: ["@typescript-eslint/parser"],
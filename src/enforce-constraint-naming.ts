@@ -0,0 +1,223 @@
+import type { TSESLint } from "@typescript-eslint/utils";
+import {
+  formatTemplate,
+  matchesTemplate,
+  renameStringLiteral,
+} from "./utils/naming-template";
+import type { TemplateValues } from "./utils/naming-template";
+import {
+  findProperty,
+  findTableByVariable,
+  getColumnNames,
+  getSchemaModel,
+} from "./utils/schema";
+import type { DrizzleConstraint, DrizzleTable, SchemaModel } from "./utils/schema";
+
+type MessageIds =
+  | "invalidConstraintName"
+  | "missingConstraintName"
+  | "duplicateConstraintName"
+  | "renameConstraint";
+
+// unique() constraints are named by enforce-index-naming, so both rules can't disagree
+type ConstraintKind = Exclude<DrizzleConstraint["kind"], "unique">;
+
+export interface Options {
+  /**
+   * Naming template per constraint kind, with `{table}`, `{columns}`,
+   * `{foreignTable}` and `{foreignColumns}` placeholders
+   */
+  templates?: Partial<Record<ConstraintKind, string>>;
+}
+
+// Names Drizzle generates when none is given; checks always need one
+const DEFAULT_TEMPLATES: Record<ConstraintKind, string> = {
+  primaryKey: "{table}_{columns}_pk",
+  foreignKey: "{table}_{columns}_{foreignTable}_{foreignColumns}_fk",
+  check: "{table}_{purpose}_check",
+};
+
+type NamedConstraint = DrizzleConstraint & { kind: ConstraintKind };
+
+const KIND_LABELS: Record<ConstraintKind, string> = {
+  primaryKey: "primary key",
+  foreignKey: "foreign key",
+  check: "check",
+};
+
+const constraintNamingRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
+  meta: {
+    type: "suggestion",
+    docs: {
+      description:
+        "Enforce naming conventions for primary key, foreign key and check constraints.",
+      url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
+    },
+    fixable: "code",
+    hasSuggestions: true,
+    messages: {
+      invalidConstraintName:
+        "Constraint '{{name}}' does not follow the naming pattern '{{template}}'",
+      missingConstraintName:
+        "This {{kind}} constraint has no name. Name it so it follows '{{template}}'",
+      duplicateConstraintName:
+        "Constraint name '{{name}}' is already used in this file",
+      renameConstraint: "Rename the constraint to '{{expected}}'.",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          templates: {
+            type: "object",
+            properties: {
+              primaryKey: { type: "string" },
+              foreignKey: { type: "string" },
+              check: { type: "string" },
+            },
+            additionalProperties: false,
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  create(context) {
+    const options = context.options[0] || {};
+    const templates = { ...DEFAULT_TEMPLATES, ...options.templates };
+    const sourceCode = context.sourceCode;
+
+    // Database names of the columns, or null when not all are known
+    function joinColumnNames(table: DrizzleTable | undefined, keys: string[]): string | null {
+      return table && keys.length > 0 ? getColumnNames(table, keys).join("_") : null;
+    }
+
+    function getValues(
+      model: SchemaModel,
+      table: DrizzleTable,
+      constraint: NamedConstraint
+    ): TemplateValues {
+      const foreignTable = findTableByVariable(model, constraint.foreignTable);
+      return {
+        table: table.name,
+        columns: joinColumnNames(table, constraint.columns),
+        foreignTable: foreignTable?.name ?? null,
+        foreignColumns: joinColumnNames(foreignTable, constraint.foreignColumns),
+      };
+    }
+
+    // primaryKey({ columns: [...] }) -> primaryKey({ columns: [...], name: "..." })
+    function addName(
+      table: DrizzleTable,
+      constraint: NamedConstraint,
+      name: string
+    ): TSESLint.ReportFixFunction | null {
+      const quote =
+        table.nameNode?.type === "Literal" ? sourceCode.getText(table.nameNode)[0] : '"';
+      const literal = `${quote}${name}${quote}`;
+
+      if (constraint.config) {
+        const lastProperty = constraint.config.properties[constraint.config.properties.length - 1];
+        if (!lastProperty) {
+          return null;
+        }
+        const separator =
+          constraint.config.loc.start.line === constraint.config.loc.end.line
+            ? ", "
+            : `,\n${" ".repeat(lastProperty.loc.start.column)}`;
+        return (fixer) => fixer.insertTextAfter(lastProperty, `${separator}name: ${literal}`);
+      }
+
+      // unique().on(...)
+      const closingParen = sourceCode.getLastToken(constraint.builderNode);
+      return constraint.builderNode.arguments.length === 0 && closingParen
+        ? (fixer) => fixer.insertTextBefore(closingParen, literal)
+        : null;
+    }
+
+    function checkConstraint(
+      model: SchemaModel,
+      table: DrizzleTable,
+      constraint: NamedConstraint
+    ): void {
+      const template = templates[constraint.kind];
+      const values = getValues(model, table, constraint);
+      const expected = formatTemplate(template, values);
+
+      if (constraint.name === null) {
+        // Named through a variable, or the legacy primaryKey(t.a, t.b) that cannot take a name
+        const isUnnamed = constraint.config
+          ? !findProperty(constraint.config, "name")
+          : constraint.builderNode.arguments.length === 0;
+        if (!isUnnamed) {
+          return;
+        }
+        context.report({
+          node: constraint.builderNode,
+          messageId: "missingConstraintName",
+          data: { kind: KIND_LABELS[constraint.kind], template },
+          fix: expected !== null ? addName(table, constraint, expected) : null,
+        });
+        return;
+      }
+
+      if (
+        constraint.nameNode &&
+        constraint.name !== expected &&
+        (expected !== null || !matchesTemplate(constraint.name, template, values))
+      ) {
+        // Renaming an existing constraint changes the schema, so it is only suggested
+        const fix =
+          expected !== null ? renameStringLiteral(sourceCode, constraint.nameNode, expected) : null;
+        context.report({
+          node: constraint.nameNode,
+          messageId: "invalidConstraintName",
+          data: { name: constraint.name, template },
+          suggest:
+            expected !== null && fix
+              ? [{ messageId: "renameConstraint", data: { expected }, fix }]
+              : [],
+        });
+      }
+    }
+
+    return {
+      Program() {
+        const model = getSchemaModel(sourceCode);
+
+        for (const table of model.tables) {
+          for (const constraint of table.constraints) {
+            if (constraint.kind !== "unique") {
+              checkConstraint(model, table, { ...constraint, kind: constraint.kind });
+            }
+          }
+        }
+
+        // Indexes share the namespace of unique and primary key constraints
+        const named = model.tables
+          .flatMap((table) => [
+            ...table.indexes.map((index) => ({ ...index, isConstraint: false })),
+            ...table.constraints.map((constraint) => ({ ...constraint, isConstraint: true })),
+          ])
+          .sort((a, b) => a.node.range[0] - b.node.range[0]);
+        const seen = new Set<string>();
+        for (const entry of named) {
+          if (entry.name === null || !entry.nameNode) {
+            continue;
+          }
+          if (entry.isConstraint && seen.has(entry.name)) {
+            context.report({
+              node: entry.nameNode,
+              messageId: "duplicateConstraintName",
+              data: { name: entry.name },
+            });
+          }
+          seen.add(entry.name);
+        }
+      },
+    };
+  },
+};
+
+export default constraintNamingRule;
@@ -1,11 +1,21 @@
-import type { TSESLint } from "@typescript-eslint/utils";
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import {
+  createDrizzleObjectMatcher,
+  drizzleObjectNameSchema,
+} from "./utils/drizzle-object";
+import type { DrizzleObjectName } from "./utils/drizzle-object";
+import { getDrizzleImports } from "./utils/imports";
+import { getQueryChain, hasChainMethod } from "./utils/query-chain";
+import { getSqlTemplate, hasInterpolatedClause, hasTopLevelKeyword, parseSql } from "./utils/sql";
 
-type MessageIds = "enforceDeleteWithWhere";
+type MessageIds = "enforceDeleteWithWhere" | "enforceDeleteWithWhereRaw";
 
-let lastNodeName: string = "";
+export interface Options {
+  drizzleObjectName?: DrizzleObjectName;
+}
 
-const deleteRule: TSESLint.RuleModule<MessageIds> = {
-  defaultOptions: [],
+const deleteRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
   meta: {
     type: "problem",
     docs: {
@@ -17,22 +27,71 @@ const deleteRule: TSESLint.RuleModule<MessageIds> = {
     messages: {
       enforceDeleteWithWhere:
         "Avoid deleting all the rows in a table. Use `db.delete(...).where(...)` instead.",
+      enforceDeleteWithWhereRaw:
+        "Avoid deleting all the rows in a table. Add a WHERE clause to this raw DELETE statement.",
     },
-    schema: [],
+    schema: [
+      {
+        type: "object",
+        properties: {
+          drizzleObjectName: drizzleObjectNameSchema,
+        },
+        additionalProperties: false,
+      },
+    ],
   },
   create(context) {
+    const options = context.options[0] || {};
+    const isDrizzleObject = createDrizzleObjectMatcher(context, options.drizzleObjectName);
+    const imports = getDrizzleImports(context.sourceCode.ast);
+
+    // db.execute(sql`DELETE FROM ...`)
+    function checkRawSql(node: TSESTree.CallExpression | TSESTree.TaggedTemplateExpression): void {
+      const template = getSqlTemplate(imports, node);
+      if (
+        template &&
+        parseSql(template.text).some(
+          (statement) =>
+            statement.command === "DELETE" &&
+            !hasTopLevelKeyword(statement, "WHERE") &&
+            !hasInterpolatedClause(statement)
+        )
+      ) {
+        context.report({
+          node: template.node,
+          messageId: "enforceDeleteWithWhereRaw",
+        });
+      }
+    }
+
     return {
-      MemberExpression: (node) => {
-        if (node.property.type === "Identifier") {
-          if (node.property.name === "delete" && lastNodeName !== "where") {
-            context.report({
-              node,
-              messageId: "enforceDeleteWithWhere",
-            });
-          }
-          lastNodeName = node.property.name;
+      TaggedTemplateExpression: checkRawSql,
+
+      CallExpression(node) {
+        checkRawSql(node);
+
+        if (
+          node.callee.type !== "MemberExpression" ||
+          node.callee.property.type !== "Identifier" ||
+          node.callee.property.name !== "delete" ||
+          !isDrizzleObject(node.callee.object)
+        ) {
+          return;
+        }
+
+        const chain = getQueryChain(context.sourceCode, node);
+        // Dynamic builders handed to a helper are completed there
+        if (
+          hasChainMethod(chain, "where") ||
+          (chain.escapes && hasChainMethod(chain, "$dynamic"))
+        ) {
+          return;
         }
-        return;
+
+        context.report({
+          node: node.callee,
+          messageId: "enforceDeleteWithWhere",
+        });
       },
     };
   },
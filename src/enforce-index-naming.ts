@@ -1,9 +1,50 @@
 import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import {
+  formatTemplate,
+  matchesTemplate,
+  renameStringLiteral,
+} from "./utils/naming-template";
+import type { TemplateValues } from "./utils/naming-template";
+import { getColumnNames, getSchemaModel } from "./utils/schema";
+import type { DrizzleTable } from "./utils/schema";
 
-type MessageIds = "invalidIndexName";
+type MessageIds = "invalidIndexName" | "indexNameTemplate" | "indexNameColumns";
 
-const indexNamingRule: TSESLint.RuleModule<MessageIds> = {
-  defaultOptions: [],
+export type IndexKind = "index" | "unique" | "gin" | "partial";
+
+export interface Options {
+  /**
+   * Naming template with `{table}`, `{columns}` and `{kind}` placeholders,
+   * either for every index or per kind, e.g. `{ unique: "{table}_{columns}_key" }`
+   */
+  template?: string | Partial<Record<IndexKind, string>>;
+  /** Text used for `{kind}` */
+  kinds?: Partial<Record<IndexKind, string>>;
+}
+
+const DEFAULT_KINDS: Record<IndexKind, string> = {
+  index: "idx",
+  unique: "key",
+  gin: "gin",
+  partial: "partial",
+};
+
+const kindProperties = {
+  index: { type: "string" },
+  unique: { type: "string" },
+  gin: { type: "string" },
+  partial: { type: "string" },
+} as const;
+
+interface NamedIndex {
+  kind: IndexKind;
+  name: string | null;
+  nameNode: TSESTree.Expression | null;
+  columns: string[];
+}
+
+const indexNamingRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
   meta: {
     type: "problem",
     docs: {
@@ -11,68 +52,159 @@ const indexNamingRule: TSESLint.RuleModule<MessageIds> = {
         "Enforce naming convention for indexes: idx_tablename_column(s) or idx_tablename_purpose.",
       url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
     },
+    fixable: "code",
     messages: {
       invalidIndexName:
         "Index should follow pattern: idx_tablename_column(s) or idx_tablename_purpose. Got: '{{name}}'",
+      indexNameTemplate:
+        "Index '{{name}}' does not follow the naming pattern '{{template}}'",
+      indexNameColumns:
+        "Index '{{name}}' does not name the columns passed to `.on()`. Expected '{{expected}}'",
     },
-    schema: [],
+    schema: [
+      {
+        type: "object",
+        properties: {
+          template: {
+            anyOf: [
+              { type: "string" },
+              {
+                type: "object",
+                properties: kindProperties,
+                additionalProperties: false,
+              },
+            ],
+          },
+          kinds: {
+            type: "object",
+            properties: kindProperties,
+            additionalProperties: false,
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
   },
   create(context) {
-    // Track current table name
-    let currentTableName: string | null = null;
-
-    // Helper to check if this is a table definition call
-    function isTableCall(node: TSESTree.CallExpression): boolean {
-      if (node.callee.type === "Identifier") {
-        return ["pgTable", "mysqlTable", "sqliteTable"].includes(
-          node.callee.name
-        );
+    const options = context.options[0] || {};
+    const kinds = { ...DEFAULT_KINDS, ...options.kinds };
+    const sourceCode = context.sourceCode;
+
+    // Check if it follows the pattern idx_[tablename]_[columns/purpose]
+    const validPattern = /^(idx|uq|uk)_[a-z][a-z0-9_]*(_[a-z][a-z0-9_]*)*$/;
+
+    // GIN and partial indexes fall back to the plain index template
+    function getTemplate(kind: IndexKind): string | undefined {
+      const template = options.template;
+      if (typeof template !== "object") {
+        return template;
+      }
+      return template[kind] ?? template.index;
+    }
+
+    // Database names of the indexed columns, or null when not all are known
+    function getColumns(table: DrizzleTable, index: NamedIndex): string | null {
+      return index.columns.length > 0 ? getColumnNames(table, index.columns).join("_") : null;
+    }
+
+    function checkLegacyName(
+      table: DrizzleTable,
+      index: NamedIndex,
+      name: string,
+      nameNode: TSESTree.Expression
+    ) {
+      const prefix = index.kind === "unique" ? "uq" : "idx";
+
+      // Check if index name includes table name
+      if (
+        validPattern.test(name) &&
+        (!table.name || name.startsWith(`${prefix}_${table.name}_`))
+      ) {
+        return;
+      }
+
+      const columns = getColumns(table, index);
+      const expected = table.name && columns ? `${prefix}_${table.name}_${columns}` : null;
+      context.report({
+        node: nameNode,
+        messageId: "invalidIndexName",
+        data: { name },
+        fix:
+          expected && validPattern.test(expected)
+            ? renameStringLiteral(sourceCode, nameNode, expected)
+            : null,
+      });
+    }
+
+    function checkName(table: DrizzleTable, index: NamedIndex) {
+      const name = index.name;
+      const nameNode = index.nameNode;
+      if (name === null || !nameNode) {
+        return;
+      }
+
+      const template = getTemplate(index.kind);
+      if (options.template === undefined) {
+        checkLegacyName(table, index, name, nameNode);
+        return;
+      }
+      if (template === undefined) {
+        return;
+      }
+
+      const values: TemplateValues = {
+        table: table.name,
+        columns: getColumns(table, index),
+        kind: kinds[index.kind],
+      };
+      const expected = formatTemplate(template, values);
+      if (name === expected) {
+        return;
+      }
+
+      // Only the columns differ, e.g. `users_email_idx` on `.on(t.name)`
+      if (
+        expected !== null &&
+        template.includes("{columns}") &&
+        matchesTemplate(name, template, values, ["columns"])
+      ) {
+        context.report({
+          node: nameNode,
+          messageId: "indexNameColumns",
+          data: { name, expected },
+          fix: renameStringLiteral(sourceCode, nameNode, expected),
+        });
+        return;
+      }
+
+      if (expected !== null || !matchesTemplate(name, template, values)) {
+        context.report({
+          node: nameNode,
+          messageId: "indexNameTemplate",
+          data: { name, template },
+          fix: expected !== null ? renameStringLiteral(sourceCode, nameNode, expected) : null,
+        });
       }
-      return false;
     }
 
     return {
-      CallExpression(node) {
-        // Track table name
-        if (isTableCall(node)) {
-          const tableNameArg = node.arguments[0];
-          if (tableNameArg?.type === "Literal" && typeof tableNameArg.value === "string") {
-            currentTableName = tableNameArg.value;
+      Program() {
+        for (const table of getSchemaModel(sourceCode).tables) {
+          for (const index of table.indexes) {
+            let kind: IndexKind = "index";
+            if (index.kind === "uniqueIndex") {
+              kind = "unique";
+            } else if (index.method === "gin") {
+              kind = "gin";
+            } else if (index.isPartial) {
+              kind = "partial";
+            }
+            checkName(table, { ...index, kind });
           }
-        }
 
-        // Check index naming
-        if (
-          node.callee.type === "Identifier" &&
-          (node.callee.name === "index" ||
-           node.callee.name === "uniqueIndex" ||
-           node.callee.name === "unique")
-        ) {
-          const indexNameArg = node.arguments[0];
-          if (indexNameArg?.type === "Literal" && typeof indexNameArg.value === "string") {
-            const indexName = indexNameArg.value;
-
-            // Check if it follows the pattern idx_[tablename]_[columns/purpose]
-            const validPattern = /^(idx|uq|uk)_[a-z][a-z0-9_]*(_[a-z][a-z0-9_]*)*$/;
-
-            if (!validPattern.test(indexName)) {
-              context.report({
-                node: indexNameArg,
-                messageId: "invalidIndexName",
-                data: { name: indexName },
-              });
-            } else if (currentTableName) {
-              // Check if index name includes table name
-              const prefix = node.callee.name === "index" ? "idx" : "uq";
-              const expectedPrefix = `${prefix}_${currentTableName}_`;
-
-              if (!indexName.startsWith(expectedPrefix)) {
-                context.report({
-                  node: indexNameArg,
-                  messageId: "invalidIndexName",
-                  data: { name: indexName },
-                });
-              }
+          for (const constraint of table.constraints) {
+            if (constraint.kind === "unique") {
+              checkName(table, { ...constraint, kind: "unique" });
             }
           }
         }
@@ -81,4 +213,4 @@ const indexNamingRule: TSESLint.RuleModule<MessageIds> = {
   },
 };
 
-export default indexNamingRule;
\ No newline at end of file
+export default indexNamingRule;
@@ -1,9 +1,23 @@
-import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import type { TSESLint } from "@typescript-eslint/utils";
+import { isSnakeCase, toCamelCase, toSnakeCase } from "./utils/casing";
+import { renameColumn, renameStringLiteral } from "./utils/naming-template";
+import { getSchemaModel } from "./utils/schema";
+import type { DrizzleColumn } from "./utils/schema";
 
-type MessageIds = "useSnakeCase";
+type MessageIds = "useSnakeCase" | "keyMismatch" | "renameKey" | "renameColumn" | "renameTable";
 
-const snakeCaseRule: TSESLint.RuleModule<MessageIds> = {
-  defaultOptions: [],
+export interface Options {
+  /** Drizzle's `casing` setting, used for columns whose name is derived from the key */
+  casing?: "snake_case" | "camelCase";
+  /** Require keys to be the camelCase form of the database name */
+  requireCamelCaseKeys?: boolean;
+}
+
+// Allow common camelCase exceptions like createdAt, updatedAt
+const ALLOWED_CAMEL_CASE = ["createdAt", "updatedAt"];
+
+const snakeCaseRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
   meta: {
     type: "problem",
     docs: {
@@ -11,64 +25,133 @@ const snakeCaseRule: TSESLint.RuleModule<MessageIds> = {
         "Enforce snake_case naming convention for PostgreSQL tables and columns.",
       url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
     },
+    hasSuggestions: true,
     messages: {
       useSnakeCase:
         "PostgreSQL tables/columns should use snake_case: '{{name}}'",
+      keyMismatch:
+        "Column key '{{key}}' does not match its database name '{{name}}'. Expected the key '{{expected}}'",
+      renameKey: "Rename the key to '{{expected}}'.",
+      renameColumn: "Rename the column to '{{expected}}'.",
+      renameTable: "Rename the table to '{{expected}}'.",
     },
-    schema: [],
+    schema: [
+      {
+        type: "object",
+        properties: {
+          casing: {
+            type: "string",
+            enum: ["snake_case", "camelCase"],
+          },
+          requireCamelCaseKeys: {
+            type: "boolean",
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
   },
   create(context) {
-    // Helper to check if a string is in valid snake_case
-    function isValidSnakeCase(name: string): boolean {
-      return /^[a-z][a-z0-9_]*$/.test(name);
+    const options = context.options[0] || {};
+    const sourceCode = context.sourceCode;
+
+    // Name Drizzle sends to the database
+    function getDatabaseName(column: DrizzleColumn): string | null {
+      if (column.name !== null) {
+        return column.name;
+      }
+      // uuid(USER_ID) names the column through a value we cannot read
+      const firstArg = column.builderNode.arguments[0];
+      if (firstArg && firstArg.type !== "ObjectExpression") {
+        return null;
+      }
+      if (options.casing === "snake_case") {
+        return toSnakeCase(column.key);
+      }
+      if (options.casing === "camelCase") {
+        return toCamelCase(column.key);
+      }
+      return column.key;
+    }
+
+    function renameKey(column: DrizzleColumn, key: string): TSESLint.ReportFixFunction | null {
+      if (column.keyNode.type === "Identifier" && /^[A-Za-z_$][\w$]*$/.test(key)) {
+        const keyNode = column.keyNode;
+        return (fixer) => fixer.replaceText(keyNode, key);
+      }
+      return renameStringLiteral(sourceCode, column.keyNode, key);
     }
 
-    // Helper to check if this is a table definition call
-    function isTableCall(node: TSESTree.CallExpression): boolean {
-      if (node.callee.type === "Identifier") {
-        return ["pgTable", "mysqlTable", "sqliteTable"].includes(
-          node.callee.name
-        );
+    function checkColumn(column: DrizzleColumn): void {
+      const name = getDatabaseName(column);
+      if (name === null) {
+        return;
       }
-      return false;
+      if (!isSnakeCase(name) && !ALLOWED_CAMEL_CASE.includes(name)) {
+        // Renaming changes the schema, so it is only suggested
+        const expected = toSnakeCase(name);
+        const fix = isSnakeCase(expected) ? renameColumn(sourceCode, column, expected) : null;
+        context.report({
+          node: column.nameNode ?? column.keyNode,
+          messageId: "useSnakeCase",
+          data: { name },
+          suggest: fix ? [{ messageId: "renameColumn", data: { expected }, fix }] : [],
+        });
+        return;
+      }
+
+      // Names derived from the key always match it
+      if (!options.requireCamelCaseKeys || column.name === null) {
+        return;
+      }
+
+      const expected = toCamelCase(column.name);
+      if (column.key === expected || column.key === column.name) {
+        return;
+      }
+
+      // Either side may be the intended one, so offer both
+      const suggest: TSESLint.ReportSuggestionArray<MessageIds> = [];
+      const keyFix = renameKey(column, expected);
+      if (keyFix) {
+        suggest.push({ messageId: "renameKey", data: { expected }, fix: keyFix });
+      }
+      const columnName = toSnakeCase(column.key);
+      const columnFix = isSnakeCase(columnName)
+        ? renameColumn(sourceCode, column, columnName)
+        : null;
+      if (columnFix) {
+        suggest.push({ messageId: "renameColumn", data: { expected: columnName }, fix: columnFix });
+      }
+
+      context.report({
+        node: column.keyNode,
+        messageId: "keyMismatch",
+        data: { key: column.key, name: column.name, expected },
+        suggest,
+      });
     }
 
     return {
-      CallExpression(node) {
-        // Check table names
-        if (isTableCall(node)) {
-          const tableNameArg = node.arguments[0];
-          if (tableNameArg?.type === "Literal" && typeof tableNameArg.value === "string") {
-            const tableName = tableNameArg.value;
-            if (!isValidSnakeCase(tableName)) {
-              context.report({
-                node: tableNameArg,
-                messageId: "useSnakeCase",
-                data: { name: tableName },
-              });
-            }
+      Program() {
+        for (const table of getSchemaModel(sourceCode).tables) {
+          // Check table names
+          if (table.name !== null && table.nameNode && !isSnakeCase(table.name)) {
+            const expected = toSnakeCase(table.name);
+            const fix = isSnakeCase(expected)
+              ? renameStringLiteral(sourceCode, table.nameNode, expected)
+              : null;
+            context.report({
+              node: table.nameNode,
+              messageId: "useSnakeCase",
+              data: { name: table.name },
+              suggest: fix ? [{ messageId: "renameTable", data: { expected }, fix }] : [],
+            });
           }
 
           // Check column names
-          const columnsArg = node.arguments[1];
-          if (columnsArg?.type === "ObjectExpression") {
-            columnsArg.properties.forEach((prop) => {
-              if (
-                prop.type === "Property" &&
-                prop.key.type === "Identifier"
-              ) {
-                const columnName = prop.key.name;
-                // Allow common camelCase exceptions like createdAt, updatedAt
-                const allowedCamelCase = ["createdAt", "updatedAt"];
-                if (!isValidSnakeCase(columnName) && !allowedCamelCase.includes(columnName)) {
-                  context.report({
-                    node: prop.key,
-                    messageId: "useSnakeCase",
-                    data: { name: columnName },
-                  });
-                }
-              }
-            });
+          for (const column of table.columns) {
+            checkColumn(column);
           }
         }
       },
@@ -76,4 +159,4 @@ const snakeCaseRule: TSESLint.RuleModule<MessageIds> = {
   },
 };
 
-export default snakeCaseRule;
\ No newline at end of file
+export default snakeCaseRule;
@@ -1,11 +1,21 @@
-import type { TSESLint } from "@typescript-eslint/utils";
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import {
+  createDrizzleObjectMatcher,
+  drizzleObjectNameSchema,
+} from "./utils/drizzle-object";
+import type { DrizzleObjectName } from "./utils/drizzle-object";
+import { getDrizzleImports } from "./utils/imports";
+import { getQueryChain, hasChainMethod } from "./utils/query-chain";
+import { getSqlTemplate, hasInterpolatedClause, hasTopLevelKeyword, parseSql } from "./utils/sql";
 
-type MessageIds = "enforceUpdateWithWhere";
+type MessageIds = "enforceUpdateWithWhere" | "enforceUpdateWithWhereRaw";
 
-let lastNodeName: string = "";
+export interface Options {
+  drizzleObjectName?: DrizzleObjectName;
+}
 
-const deleteRule: TSESLint.RuleModule<MessageIds> = {
-  defaultOptions: [],
+const updateRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
   meta: {
     type: "problem",
     docs: {
@@ -17,32 +27,76 @@ const deleteRule: TSESLint.RuleModule<MessageIds> = {
     messages: {
       enforceUpdateWithWhere:
         "Avoid updating all the rows in a table. Use `db.update(...).set(...).where(...)` instead.",
+      enforceUpdateWithWhereRaw:
+        "Avoid updating all the rows in a table. Add a WHERE clause to this raw UPDATE statement.",
     },
-    schema: [],
+    schema: [
+      {
+        type: "object",
+        properties: {
+          drizzleObjectName: drizzleObjectNameSchema,
+        },
+        additionalProperties: false,
+      },
+    ],
   },
   create(context) {
+    const options = context.options[0] || {};
+    const isDrizzleObject = createDrizzleObjectMatcher(context, options.drizzleObjectName);
+    const imports = getDrizzleImports(context.sourceCode.ast);
+
+    // db.execute(sql`UPDATE ... SET ...`)
+    function checkRawSql(node: TSESTree.CallExpression | TSESTree.TaggedTemplateExpression): void {
+      const template = getSqlTemplate(imports, node);
+      if (
+        template &&
+        parseSql(template.text).some(
+          (statement) =>
+            statement.command === "UPDATE" &&
+            !hasTopLevelKeyword(statement, "WHERE") &&
+            !hasInterpolatedClause(statement)
+        )
+      ) {
+        context.report({
+          node: template.node,
+          messageId: "enforceUpdateWithWhereRaw",
+        });
+      }
+    }
+
     return {
-      MemberExpression: (node) => {
-        if (node.property.type === "Identifier") {
-          if (
-            lastNodeName !== "where" &&
-            node.property.name === "set" &&
-            node.object.type === "CallExpression" &&
-            node.object.callee.type === "MemberExpression" &&
-            node.object.callee.property.type === "Identifier" &&
-            node.object.callee.property.name === "update"
-          ) {
-            context.report({
-              node,
-              messageId: "enforceUpdateWithWhere",
-            });
-          }
-          lastNodeName = node.property.name;
+      TaggedTemplateExpression: checkRawSql,
+
+      CallExpression(node) {
+        checkRawSql(node);
+
+        if (
+          node.callee.type !== "MemberExpression" ||
+          node.callee.property.type !== "Identifier" ||
+          node.callee.property.name !== "update" ||
+          !isDrizzleObject(node.callee.object)
+        ) {
+          return;
+        }
+
+        const chain = getQueryChain(context.sourceCode, node);
+        const setMethod = chain.methods.find((method) => method.name === "set");
+        // Dynamic builders handed to a helper are completed there
+        if (
+          !setMethod ||
+          hasChainMethod(chain, "where") ||
+          (chain.escapes && hasChainMethod(chain, "$dynamic"))
+        ) {
+          return;
         }
-        return;
+
+        context.report({
+          node: setMethod.node,
+          messageId: "enforceUpdateWithWhere",
+        });
       },
     };
   },
 };
 
-export default deleteRule;
+export default updateRule;
@@ -4,12 +4,20 @@ import updateRule from "./enforce-update-with-where";
 import uuidIndexRule from "./enforce-uuid-indexes";
 import snakeCaseNamingRule from "./enforce-snake-case-naming";
 import indexNamingRule from "./enforce-index-naming";
+import constraintNamingRule from "./enforce-constraint-naming";
+import maxIdentifierLengthRule from "./max-identifier-length";
+import noReservedIdentifiersRule from "./no-reserved-identifiers";
 import timestampColumnsRule from "./require-timestamp-columns";
 import preferUuidPrimaryKeyRule from "./prefer-uuid-primary-key";
 import noSelectStarRule from "./no-select-star";
 import limitJoinComplexityRule from "./limit-join-complexity";
 import requireRLSEnabledRule from "./require-rls-enabled";
 import preventRLSBypassRule from "./prevent-rls-bypass";
+import noUnsafeRLSPolicyRule from "./no-unsafe-rls-policy";
+import noUnsafeSqlRawRule from "./no-unsafe-sql-raw";
+import noOuterDbInTransactionRule from "./no-outer-db-in-transaction";
+import noFloatingQueryRule from "./no-floating-query";
+import requireWhereNotUndefinedRule from "./require-where-not-undefined";
 import { name, version } from "../package.json";
 
 const plugin = {
@@ -24,12 +32,20 @@ const plugin = {
     "enforce-uuid-indexes": uuidIndexRule,
     "enforce-snake-case-naming": snakeCaseNamingRule,
     "enforce-index-naming": indexNamingRule,
+    "enforce-constraint-naming": constraintNamingRule,
+    "max-identifier-length": maxIdentifierLengthRule,
+    "no-reserved-identifiers": noReservedIdentifiersRule,
     "require-timestamp-columns": timestampColumnsRule,
     "prefer-uuid-primary-key": preferUuidPrimaryKeyRule,
     "no-select-star": noSelectStarRule,
     "limit-join-complexity": limitJoinComplexityRule,
     "require-rls-enabled": requireRLSEnabledRule,
     "prevent-rls-bypass": preventRLSBypassRule,
+    "no-unsafe-rls-policy": noUnsafeRLSPolicyRule,
+    "no-unsafe-sql-raw": noUnsafeSqlRawRule,
+    "no-outer-db-in-transaction": noOuterDbInTransactionRule,
+    "no-floating-query": noFloatingQueryRule,
+    "require-where-not-undefined": requireWhereNotUndefinedRule,
   } satisfies Record<string, TSESLint.RuleModule<string, Array<unknown>>>,
   configs: {} as Record<string, TSESLint.Linter.Config[]>,
 };
@@ -44,9 +60,15 @@ Object.assign(plugin.configs, {
       rules: {
         "drizzle/enforce-delete-with-where": "error",
         "drizzle/enforce-update-with-where": "error",
+        "drizzle/require-where-not-undefined": "error",
+        "drizzle/no-outer-db-in-transaction": "error",
+        "drizzle/no-floating-query": "error",
         "drizzle/enforce-uuid-indexes": "error",
         "drizzle/enforce-snake-case-naming": "error",
         "drizzle/enforce-index-naming": "error",
+        "drizzle/enforce-constraint-naming": "error",
+        "drizzle/max-identifier-length": "error",
+        "drizzle/no-reserved-identifiers": "error",
         "drizzle/require-timestamp-columns": "warn",
         "drizzle/prefer-uuid-primary-key": "warn",
         "drizzle/no-select-star": "warn",
@@ -55,6 +77,10 @@ Object.assign(plugin.configs, {
           sensitivePatterns: ["user", "account", "payment", "auth", "session"]
         }],
         "drizzle/prevent-rls-bypass": "warn",
+        "drizzle/no-unsafe-rls-policy": ["warn", {
+          sensitivePatterns: ["user", "account", "payment", "auth", "session"]
+        }],
+        "drizzle/no-unsafe-sql-raw": "error",
       },
     },
   ],
@@ -79,9 +105,15 @@ Object.assign(plugin.configs, {
       rules: {
         "drizzle/enforce-delete-with-where": "error",
         "drizzle/enforce-update-with-where": "error",
+        "drizzle/require-where-not-undefined": "error",
+        "drizzle/no-outer-db-in-transaction": "error",
+        "drizzle/no-floating-query": "error",
         "drizzle/enforce-uuid-indexes": "error",
         "drizzle/enforce-snake-case-naming": "error",
         "drizzle/enforce-index-naming": "error",
+        "drizzle/enforce-constraint-naming": "error",
+        "drizzle/max-identifier-length": "error",
+        "drizzle/no-reserved-identifiers": "error",
         "drizzle/require-timestamp-columns": "error",
         "drizzle/prefer-uuid-primary-key": "error",
         "drizzle/no-select-star": "error",
@@ -90,6 +122,10 @@ Object.assign(plugin.configs, {
           sensitivePatterns: ["user", "account", "payment", "auth", "session"]
         }],
         "drizzle/prevent-rls-bypass": "error",
+        "drizzle/no-unsafe-rls-policy": ["error", {
+          sensitivePatterns: ["user", "account", "payment", "auth", "session"]
+        }],
+        "drizzle/no-unsafe-sql-raw": "error",
       },
     },
   ],
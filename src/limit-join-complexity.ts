@@ -1,9 +1,43 @@
 import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import {
+  createDrizzleObjectMatcher,
+  drizzleObjectNameSchema,
+} from "./utils/drizzle-object";
+import type { DrizzleObjectName } from "./utils/drizzle-object";
+import { findVariable, getQueryChain } from "./utils/query-chain";
+import { flattenRelations, getRelationalQuery, getRelations } from "./utils/relational-query";
 
-type MessageIds = "tooManyJoins";
+type MessageIds = "tooManyJoins" | "tooManyWeightedJoins" | "tooManyRelations";
+
+const JOIN_METHODS = [
+  "leftJoin",
+  "rightJoin",
+  "innerJoin",
+  "fullJoin",
+  "crossJoin",
+  "leftJoinLateral",
+  "innerJoinLateral",
+  "crossJoinLateral",
+] as const;
+
+/** Methods starting a query that can have joins */
+const ROOT_METHODS = new Set(["select", "selectDistinct", "selectDistinctOn", "update", "delete"]);
+
+type JoinMethod = (typeof JOIN_METHODS)[number];
+
+interface JoinTotal {
+  count: number;
+  /** Sum of the join weights, the count without `joinWeights` */
+  weight: number;
+}
 
 export interface Options {
+  drizzleObjectName?: DrizzleObjectName;
   maxJoins?: number;
+  /** How much each join type counts toward `maxJoins`, 1 by default */
+  joinWeights?: Partial<Record<JoinMethod, number>>;
+  /** Also count joins of subqueries (`.as()`) and CTEs (`$with`) used by the query */
+  countSubqueries?: boolean;
 }
 
 const limitJoinComplexityRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
@@ -18,15 +52,30 @@ const limitJoinComplexityRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
     messages: {
       tooManyJoins:
         "Query has {{count}} joins. Consider breaking into smaller queries or creating a view (max: {{max}})",
+      tooManyWeightedJoins:
+        "Query has {{count}} joins with a total weight of {{weight}}. Consider breaking into smaller queries or creating a view (max weight: {{max}})",
+      tooManyRelations:
+        "Query loads {{count}} relations; '{{relation}}' goes over the limit. Consider loading it in a separate query (max: {{max}})",
     },
     schema: [
       {
         type: "object",
         properties: {
+          drizzleObjectName: drizzleObjectNameSchema,
           maxJoins: {
             type: "number",
             minimum: 1,
           },
+          joinWeights: {
+            type: "object",
+            properties: Object.fromEntries(
+              JOIN_METHODS.map((method) => [method, { type: "number", minimum: 0 }])
+            ),
+            additionalProperties: false,
+          },
+          countSubqueries: {
+            type: "boolean",
+          },
         },
         additionalProperties: false,
       },
@@ -35,66 +84,207 @@ const limitJoinComplexityRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
   create(context) {
     const options = context.options[0] || {};
     const maxJoins = options.maxJoins || 3;
+    const joinWeights = options.joinWeights || {};
+    const countSubqueries = options.countSubqueries || false;
+    const sourceCode = context.sourceCode;
+    const isDrizzleObject = createDrizzleObjectMatcher(context, options.drizzleObjectName);
+    const hasWeights = Object.keys(joinWeights).length > 0;
+    const joinTotals = new Map<TSESTree.CallExpression, JoinTotal>();
+
+    // db.select(), tx.update(users) or db.with(recent).select()
+    function isQueryRoot(node: TSESTree.CallExpression): boolean {
+      if (!isRootCall(node) || node.callee.type !== "MemberExpression") {
+        return false;
+      }
+
+      const receiver = node.callee.object;
+      if (
+        receiver.type === "CallExpression" &&
+        receiver.callee.type === "MemberExpression" &&
+        receiver.callee.property.type === "Identifier" &&
+        receiver.callee.property.name === "with"
+      ) {
+        return isDrizzleObject(receiver.callee.object);
+      }
+      return isDrizzleObject(receiver);
+    }
+
+    // Number and total weight of the joins of a query, once per query
+    function countJoins(root: TSESTree.CallExpression, visiting: Set<TSESTree.Node>): JoinTotal {
+      const cached = joinTotals.get(root);
+      if (cached !== undefined) {
+        return cached;
+      }
+      const total = { count: 0, weight: 0 };
+      if (visiting.has(root)) {
+        return total;
+      }
+      visiting.add(root);
+
+      function add(other: JoinTotal): void {
+        total.count += other.count;
+        total.weight += other.weight;
+      }
+
+      // A CTE is both declared in with() and selected from: count it once
+      const subqueries = new Set<TSESTree.CallExpression>();
+      for (const method of getQueryChain(sourceCode, root).methods) {
+        if (isJoinMethod(method.name)) {
+          add({ count: 1, weight: joinWeights[method.name] ?? 1 });
+        }
+        if (countSubqueries && method.call && (isJoinMethod(method.name) || method.name === "from")) {
+          add(countSubqueryJoins(method.call.arguments[0], subqueries, visiting));
+        }
+      }
+
+      // CTEs: db.with(recentOrders, topUsers).select()
+      const receiver = root.callee.type === "MemberExpression" ? root.callee.object : null;
+      if (countSubqueries && receiver?.type === "CallExpression") {
+        for (const argument of receiver.arguments) {
+          add(countSubqueryJoins(argument, subqueries, visiting));
+        }
+      }
+
+      visiting.delete(root);
+      joinTotals.set(root, total);
+      return total;
+    }
+
+    function countSubqueryJoins(
+      node: TSESTree.Node | undefined,
+      counted: Set<TSESTree.CallExpression>,
+      visiting: Set<TSESTree.Node>
+    ): JoinTotal {
+      const subquery = node && getSubqueryRoot(node, new Set());
+      if (!subquery || counted.has(subquery)) {
+        return { count: 0, weight: 0 };
+      }
+      counted.add(subquery);
+      return countJoins(subquery, visiting);
+    }
+
+    /**
+     * The query behind a subquery or CTE:
+     *   db.select().from(orders).leftJoin(...).as("sq")
+     *   db.$with("sq").as(db.select().from(orders).leftJoin(...))
+     */
+    function getSubqueryRoot(
+      node: TSESTree.Node,
+      seen: Set<TSESTree.Node>
+    ): TSESTree.CallExpression | null {
+      if (node.type === "Identifier") {
+        const definition = findVariable(sourceCode.getScope(node), node.name)?.defs[0];
+        const init = definition?.type === "Variable" ? definition.node.init : null;
+        if (!init || seen.has(init)) {
+          return null;
+        }
+        seen.add(init);
+        return getSubqueryRoot(init, seen);
+      }
+
+      if (
+        node.type !== "CallExpression" ||
+        node.callee.type !== "MemberExpression" ||
+        node.callee.property.type !== "Identifier" ||
+        node.callee.property.name !== "as"
+      ) {
+        return null;
+      }
+
+      const target = node.callee.object;
+      const isCte =
+        target.type === "CallExpression" &&
+        target.callee.type === "MemberExpression" &&
+        target.callee.property.type === "Identifier" &&
+        target.callee.property.name === "$with";
+      if (!isCte) {
+        return findChainRoot(target);
+      }
+
+      // $with("sq").as((qb) => qb.select()...)
+      const query = node.arguments[0];
+      if (
+        (query?.type === "ArrowFunctionExpression" || query?.type === "FunctionExpression") &&
+        query.body.type !== "BlockStatement"
+      ) {
+        return findChainRoot(query.body);
+      }
+      return query ? findChainRoot(query) : null;
+    }
 
     return {
       CallExpression(node) {
-        // Check for join methods
-        if (
-          node.callee.type === "MemberExpression" &&
-          node.callee.property.type === "Identifier" &&
-          ["leftJoin", "innerJoin", "rightJoin", "fullJoin"].includes(
-            node.callee.property.name
-          )
-        ) {
-          // Count joins in the chain
-          let joinCount = 1;
-          let current: TSESTree.Node | undefined = node.parent;
-
-          // Walk up the chain to find all joins
-          while (current) {
-            if (
-              current.type === "CallExpression" &&
-              current.callee.type === "MemberExpression" &&
-              current.callee.property.type === "Identifier" &&
-              ["leftJoin", "innerJoin", "rightJoin", "fullJoin"].includes(
-                current.callee.property.name
-              )
-            ) {
-              joinCount++;
-            }
-
-            // Also walk down to find chained joins
-            if (
-              current.type === "MemberExpression" &&
-              current.parent?.type === "CallExpression"
-            ) {
-              current = current.parent;
-            } else if (current.type === "CallExpression") {
-              // Check if parent is a member expression leading to another call
-              if (
-                current.parent?.type === "MemberExpression" &&
-                current.parent.parent?.type === "CallExpression"
-              ) {
-                current = current.parent.parent;
-              } else {
-                current = current.parent;
-              }
-            } else {
-              break;
-            }
-          }
-
-          if (joinCount > maxJoins) {
+        // db.query.users.findMany({ with: { posts: { with: { comments: true } } } })
+        const query = getRelationalQuery(node);
+        if (query) {
+          const relations = flattenRelations(getRelations(query.config));
+          const offending = relations[maxJoins];
+          if (offending && isDrizzleObject(query.receiver)) {
             context.report({
-              node,
-              messageId: "tooManyJoins",
-              data: { count: String(joinCount), max: String(maxJoins) },
+              node: offending.node,
+              messageId: "tooManyRelations",
+              data: {
+                count: String(relations.length),
+                max: String(maxJoins),
+                relation: offending.path,
+              },
             });
           }
+          return;
+        }
+
+        if (!isQueryRoot(node)) {
+          return;
+        }
+
+        const { count, weight } = countJoins(node, new Set());
+        if (weight <= maxJoins) {
+          return;
+        }
+        // With weights, the count alone doesn't explain the report
+        if (hasWeights) {
+          context.report({
+            node,
+            messageId: "tooManyWeightedJoins",
+            data: { count: String(count), weight: String(weight), max: String(maxJoins) },
+          });
+        } else {
+          context.report({
+            node,
+            messageId: "tooManyJoins",
+            data: { count: String(count), max: String(maxJoins) },
+          });
         }
       },
     };
   },
 };
 
+function isJoinMethod(name: string): name is JoinMethod {
+  return (JOIN_METHODS as readonly string[]).includes(name);
+}
+
+function isRootCall(node: TSESTree.CallExpression): boolean {
+  return (
+    node.callee.type === "MemberExpression" &&
+    !node.callee.computed &&
+    node.callee.property.type === "Identifier" &&
+    ROOT_METHODS.has(node.callee.property.name)
+  );
+}
+
+/**
+ * Root call of a method chain: `db.select()` in `db.select().from(a).leftJoin(...)`.
+ */
+function findChainRoot(node: TSESTree.Node): TSESTree.CallExpression | null {
+  let current = node;
+  while (current.type === "CallExpression" && current.callee.type === "MemberExpression") {
+    if (isRootCall(current)) {
+      return current;
+    }
+    current = current.callee.object;
+  }
+  return null;
+}
+
 export default limitJoinComplexityRule;
\ No newline at end of file
@@ -0,0 +1,304 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import {
+  findTableByVariable,
+  getColumnName,
+  getColumnNames,
+  getQualifiedName,
+  getSchemaModel,
+  getStaticString,
+} from "./utils/schema";
+import type {
+  DrizzleColumn,
+  DrizzleConstraint,
+  DrizzleTable,
+  SchemaModel,
+} from "./utils/schema";
+
+type MessageIds = "identifierTooLong" | "generatedNameTooLong" | "truncatedCollision";
+
+export interface Options {
+  maxBytes?: number;
+}
+
+// NAMEDATALEN - 1
+const DEFAULT_MAX_BYTES = 63;
+
+interface Identifier {
+  kind: string;
+  name: string;
+  /** Drizzle generates the name because none was given */
+  generated: boolean;
+  /** Names only collide with others in the same namespace, e.g. the columns of one table */
+  namespace: string;
+  node: TSESTree.Node;
+}
+
+const maxIdentifierLengthRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow identifiers longer than PostgreSQL's 63-byte limit, which are silently truncated.",
+      url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
+    },
+    messages: {
+      identifierTooLong:
+        "{{kind}} name '{{name}}' is {{bytes}} bytes, over the {{maxBytes}}-byte limit. PostgreSQL truncates it to '{{truncated}}'",
+      generatedNameTooLong:
+        "Drizzle names this {{kind}} '{{name}}', which is {{bytes}} bytes, over the {{maxBytes}}-byte limit. Give it a shorter name",
+      truncatedCollision:
+        "'{{name}}' and '{{other}}' are both truncated to '{{truncated}}', so they name the same {{kind}}",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          maxBytes: {
+            type: "integer",
+            minimum: 1,
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  create(context) {
+    const options = context.options[0] || {};
+    const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+
+    function collectIdentifiers(model: SchemaModel): Identifier[] {
+      const identifiers: Identifier[] = [];
+
+      function add(
+        kind: string,
+        name: string | null,
+        namespace: string,
+        node: TSESTree.Node | null,
+        generated = false
+      ): void {
+        if (name !== null && node) {
+          identifiers.push({ kind, name, generated, namespace, node });
+        }
+      }
+
+      // email: text("email").unique(), orgId: uuid("org_id").references(() => orgs.id)
+      function addColumnConstraints(
+        table: DrizzleTable,
+        column: DrizzleColumn,
+        namespaces: { schema: string; constraints: string }
+      ): void {
+        const columnName = getColumnName(column);
+        for (const modifier of column.modifiers) {
+          const nameArg = modifier.node.arguments[0];
+          if (modifier.name === "unique") {
+            if (nameArg) {
+              add("Constraint", getStaticString(nameArg), namespaces.schema, nameArg);
+            } else {
+              const name = `${table.name}_${columnName}_unique`;
+              add("unique constraint", name, namespaces.schema, modifier.node, true);
+            }
+          } else if (modifier.name === "references") {
+            const target = getReferencedColumn(model, nameArg);
+            if (target) {
+              const name = `${table.name}_${columnName}_${target.table}_${target.column}_fk`;
+              add("foreign key", name, namespaces.constraints, modifier.node, true);
+            }
+          }
+        }
+      }
+
+      // Names Drizzle generates for keys declared without one
+      function getGeneratedName(
+        table: DrizzleTable,
+        constraint: DrizzleConstraint
+      ): { kind: string; name: string } | null {
+        if (constraint.columns.length === 0) {
+          return null;
+        }
+        const columns = getColumnNames(table, constraint.columns).join("_");
+
+        if (constraint.kind === "foreignKey") {
+          const foreignTable = findTableByVariable(model, constraint.foreignTable);
+          if (!foreignTable?.name || constraint.foreignColumns.length === 0) {
+            return null;
+          }
+          const foreignColumns = getColumnNames(foreignTable, constraint.foreignColumns).join("_");
+          return {
+            kind: "foreign key",
+            name: `${table.name}_${columns}_${foreignTable.name}_${foreignColumns}_fk`,
+          };
+        }
+        if (constraint.kind === "unique") {
+          return { kind: "unique constraint", name: `${table.name}_${columns}_unique` };
+        }
+        // The legacy primaryKey(t.a, t.b) is named by PostgreSQL, which keeps it short
+        if (constraint.kind === "primaryKey" && constraint.config) {
+          return { kind: "primary key", name: `${table.name}_${columns}_pk` };
+        }
+        return null;
+      }
+
+      for (const table of model.tables) {
+        if (table.name === null) {
+          continue;
+        }
+
+        // Tables, views, enums, indexes and the indexes behind keys share a schema's namespace
+        const qualifiedName = getQualifiedName(table);
+        const namespaces = {
+          schema: `schema:${table.schema ?? "public"}`,
+          columns: `columns:${qualifiedName}`,
+          constraints: `constraints:${qualifiedName}`,
+          policies: `policies:${qualifiedName}`,
+        };
+
+        add("Table", table.name, namespaces.schema, table.nameNode);
+
+        for (const column of table.columns) {
+          add("Column", getColumnName(column), namespaces.columns, column.nameNode ?? column.keyNode);
+          addColumnConstraints(table, column, namespaces);
+        }
+
+        for (const index of table.indexes) {
+          add("Index", index.name, namespaces.schema, index.nameNode);
+        }
+
+        for (const constraint of table.constraints) {
+          const namespace =
+            constraint.kind === "primaryKey" || constraint.kind === "unique"
+              ? namespaces.schema
+              : namespaces.constraints;
+          const generated = constraint.nameNode ? null : getGeneratedName(table, constraint);
+          if (generated) {
+            add(generated.kind, generated.name, namespace, constraint.builderNode, true);
+          } else {
+            add("Constraint", constraint.name, namespace, constraint.nameNode);
+          }
+        }
+
+        for (const policy of table.policies) {
+          add("Policy", policy.name, namespaces.policies, policy.nameNode);
+        }
+      }
+
+      for (const entry of model.enums) {
+        add("Enum", entry.name, `schema:${entry.schema ?? "public"}`, entry.nameNode);
+      }
+      for (const view of model.views) {
+        const kind = view.kind === "view" ? "View" : "Materialized view";
+        add(kind, view.name, `schema:${view.schema ?? "public"}`, view.nameNode);
+      }
+
+      return identifiers.sort((a, b) => a.node.range[0] - b.node.range[0]);
+    }
+
+    return {
+      Program() {
+        const model = getSchemaModel(context.sourceCode);
+        const identifiers = collectIdentifiers(model);
+        const truncatedNames = new Map<string, Identifier>();
+
+        // A name at the limit is its own truncated form, and clashes with longer names cut to it
+        for (const identifier of identifiers) {
+          if (getByteLength(identifier.name) <= maxBytes) {
+            truncatedNames.set(`${identifier.namespace}\0${identifier.name}`, identifier);
+          }
+        }
+
+        for (const identifier of identifiers) {
+          const bytes = getByteLength(identifier.name);
+          if (bytes <= maxBytes) {
+            continue;
+          }
+
+          const truncated = truncateToBytes(identifier.name, maxBytes);
+          const key = `${identifier.namespace}\0${truncated}`;
+          const other = truncatedNames.get(key);
+          if (other && other.name !== identifier.name) {
+            context.report({
+              node: identifier.node,
+              messageId: "truncatedCollision",
+              data: {
+                name: identifier.name,
+                other: other.name,
+                truncated,
+                kind: identifier.kind.toLowerCase(),
+              },
+            });
+            continue;
+          }
+          truncatedNames.set(key, identifier);
+
+          context.report({
+            node: identifier.node,
+            messageId: identifier.generated ? "generatedNameTooLong" : "identifierTooLong",
+            data: {
+              kind: identifier.kind,
+              name: identifier.name,
+              bytes,
+              maxBytes,
+              truncated,
+            },
+          });
+        }
+      },
+    };
+  },
+};
+
+// .references(() => orgs.id)
+function getReferencedColumn(
+  model: SchemaModel,
+  node: TSESTree.Node | undefined
+): { table: string; column: string } | null {
+  const body = node?.type === "ArrowFunctionExpression" ? node.body : null;
+  if (
+    body?.type !== "MemberExpression" ||
+    body.object.type !== "Identifier" ||
+    body.property.type !== "Identifier"
+  ) {
+    return null;
+  }
+
+  const columnKey = body.property.name;
+  const table = findTableByVariable(model, body.object.name);
+  const column = table?.columns.find((candidate) => candidate.key === columnKey);
+  return table?.name && column ? { table: table.name, column: getColumnName(column) } : null;
+}
+
+// UTF-8 length, counted by hand as there is no TextEncoder in the rule's typings
+function getByteLength(text: string): number {
+  let bytes = 0;
+  for (const char of text) {
+    bytes += getCharByteLength(char);
+  }
+  return bytes;
+}
+
+function getCharByteLength(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) {
+    return 1;
+  }
+  if (codePoint < 0x800) {
+    return 2;
+  }
+  return codePoint < 0x10000 ? 3 : 4;
+}
+
+// PostgreSQL cuts at a character boundary, never inside a multi-byte character
+function truncateToBytes(text: string, maxBytes: number): string {
+  let bytes = 0;
+  let result = "";
+  for (const char of text) {
+    bytes += getCharByteLength(char);
+    if (bytes > maxBytes) {
+      break;
+    }
+    result += char;
+  }
+  return result;
+}
+
+export default maxIdentifierLengthRule;
@@ -0,0 +1,149 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import {
+  createDrizzleObjectMatcher,
+  drizzleObjectNameSchema,
+} from "./utils/drizzle-object";
+import type { DrizzleObjectName } from "./utils/drizzle-object";
+import { getQueryChain, hasChainMethod } from "./utils/query-chain";
+import { getTypeServices } from "./utils/types";
+
+type MessageIds = "noFloatingQuery" | "addAwait";
+
+export interface Options {
+  drizzleObjectName?: DrizzleObjectName;
+}
+
+/** Methods starting a query builder */
+const ROOT_METHODS = new Set([
+  "insert",
+  "update",
+  "delete",
+  "select",
+  "selectDistinct",
+  "selectDistinctOn",
+]);
+
+/** Methods that run the query, or turn the builder into something else */
+const EXECUTING_METHODS = [
+  "execute",
+  "then",
+  "catch",
+  "finally",
+  "run",
+  "all",
+  "get",
+  "toSQL",
+  "getSQL",
+];
+
+/** Builder methods that set a receiver apart from a Map, Set or cache */
+const BUILDER_METHODS = [
+  "from",
+  "values",
+  "set",
+  "where",
+  "returning",
+  "onConflictDoNothing",
+  "onConflictDoUpdate",
+  "$dynamic",
+];
+
+const noFloatingQueryRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow Drizzle query builders that are never awaited, returned or executed.",
+      url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
+    },
+    hasSuggestions: true,
+    messages: {
+      noFloatingQuery:
+        "This `{{method}}` query is never executed. Drizzle queries only run when awaited, returned or executed with `.execute()`.",
+      addAwait: "Add `await` to run the query.",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          drizzleObjectName: drizzleObjectNameSchema,
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  create(context) {
+    const options = context.options[0] || {};
+    const isDrizzleObject = createDrizzleObjectMatcher(context, options.drizzleObjectName);
+    // Without a configured name or types any receiver matches, so look at the chain itself
+    const requireBuilderMethod =
+      options.drizzleObjectName === undefined && !getTypeServices(context);
+
+    return {
+      CallExpression(node) {
+        if (
+          node.callee.type !== "MemberExpression" ||
+          node.callee.property.type !== "Identifier" ||
+          !ROOT_METHODS.has(node.callee.property.name) ||
+          !isDrizzleObject(node.callee.object)
+        ) {
+          return;
+        }
+
+        const chain = getQueryChain(context.sourceCode, node);
+        const statement = getExpressionStatement(chain.end);
+        if (
+          !statement ||
+          hasChainMethod(chain, ...EXECUTING_METHODS) ||
+          (requireBuilderMethod && !hasChainMethod(chain, ...BUILDER_METHODS))
+        ) {
+          return;
+        }
+
+        context.report({
+          node: chain.end,
+          messageId: "noFloatingQuery",
+          data: { method: node.callee.property.name },
+          suggest: isInAsyncFunction(statement)
+            ? [
+                {
+                  messageId: "addAwait",
+                  fix: (fixer) => fixer.insertTextBefore(statement.expression, "await "),
+                },
+              ]
+            : [],
+        });
+      },
+    };
+  },
+};
+
+/**
+ * The statement the builder chain stands in on its own, e.g. `db.delete(users).where(...);`
+ */
+function getExpressionStatement(
+  node: TSESTree.Expression
+): TSESTree.ExpressionStatement | null {
+  let current: TSESTree.Node = node;
+  // db?.delete(users)...
+  if (current.parent?.type === "ChainExpression") {
+    current = current.parent;
+  }
+  return current.parent?.type === "ExpressionStatement" ? current.parent : null;
+}
+
+function isInAsyncFunction(node: TSESTree.Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (
+      current.type === "ArrowFunctionExpression" ||
+      current.type === "FunctionExpression" ||
+      current.type === "FunctionDeclaration"
+    ) {
+      return current.async;
+    }
+  }
+  return false;
+}
+
+export default noFloatingQueryRule;
@@ -0,0 +1,141 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import {
+  createDrizzleObjectMatcher,
+  drizzleObjectNameSchema,
+  getTransactionCallback,
+  isTransactionCallback,
+} from "./utils/drizzle-object";
+import type { DrizzleObjectName, TransactionCallback } from "./utils/drizzle-object";
+import { findVariable } from "./utils/query-chain";
+import { getTypeServices, isDrizzleDatabaseType } from "./utils/types";
+
+type MessageIds = "noOuterDbInTransaction" | "useTransactionObject";
+
+export interface Options {
+  drizzleObjectName?: DrizzleObjectName;
+}
+
+const noOuterDbInTransactionRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow using the outer Drizzle instance inside a transaction callback, which runs the statement outside the transaction.",
+      url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
+    },
+    hasSuggestions: true,
+    messages: {
+      noOuterDbInTransaction:
+        "'{{name}}' is used inside a transaction callback and runs outside the transaction. Use '{{tx}}' instead.",
+      useTransactionObject: "Replace '{{name}}' with '{{tx}}'.",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          drizzleObjectName: drizzleObjectNameSchema,
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  create(context) {
+    const options = context.options[0] || {};
+    const sourceCode = context.sourceCode;
+    const isDrizzleObject = createDrizzleObjectMatcher(context, options.drizzleObjectName);
+    const services = getTypeServices(context);
+
+    // Innermost enclosing `transaction()` callback on a Drizzle instance
+    function getEnclosingTransaction(node: TSESTree.Node): TransactionCallback | null {
+      for (let current = node.parent; current; current = current.parent) {
+        if (
+          isTransactionCallback(current) &&
+          current.parent.callee.type === "MemberExpression" &&
+          isDrizzleObject(current.parent.callee.object)
+        ) {
+          return current;
+        }
+      }
+      return null;
+    }
+
+    // Whether `node` is a Drizzle instance other than the transaction parameter
+    function isOuterInstance(node: TSESTree.Expression, callback: TransactionCallback): boolean {
+      const ownerCallback = getTransactionCallback(sourceCode, node);
+      if (ownerCallback) {
+        // The callback's own parameter, or an enclosing transaction's one
+        return ownerCallback !== callback;
+      }
+
+      // The object the transaction (or an enclosing one) was started on
+      for (
+        let current: TransactionCallback | null = callback;
+        current;
+        current = getEnclosingTransaction(current)
+      ) {
+        const receiver = current.parent.callee;
+        if (receiver.type === "MemberExpression" && isSameObject(node, receiver.object)) {
+          return true;
+        }
+      }
+
+      // Any other configured or typed Drizzle instance
+      if (services && isDrizzleDatabaseType(services, node)) {
+        return true;
+      }
+      return options.drizzleObjectName !== undefined && isDrizzleObject(node);
+    }
+
+    function isSameObject(a: TSESTree.Expression, b: TSESTree.Expression): boolean {
+      if (a.type === "Identifier" && b.type === "Identifier") {
+        // Compare bindings so a shadowing `db` parameter is not mistaken for the outer one
+        return (
+          a.name === b.name &&
+          findVariable(sourceCode.getScope(a), a.name) ===
+            findVariable(sourceCode.getScope(b), b.name)
+        );
+      }
+      return sourceCode.getText(a) === sourceCode.getText(b);
+    }
+
+    return {
+      MemberExpression(node) {
+        const object = node.object;
+        if (
+          object.type !== "Identifier" &&
+          !(object.type === "MemberExpression" && object.object.type === "ThisExpression")
+        ) {
+          return;
+        }
+
+        const callback = getEnclosingTransaction(node);
+        if (!callback || !isOuterInstance(object, callback)) {
+          return;
+        }
+
+        const txParam = callback.params[0];
+        const tx = txParam?.type === "Identifier" ? txParam.name : "tx";
+        const data = { name: sourceCode.getText(object), tx };
+
+        context.report({
+          node: object,
+          messageId: "noOuterDbInTransaction",
+          data,
+          suggest:
+            txParam?.type === "Identifier"
+              ? [
+                  {
+                    messageId: "useTransactionObject",
+                    data,
+                    fix: (fixer) => fixer.replaceText(object, tx),
+                  },
+                ]
+              : [],
+        });
+      },
+    };
+  },
+};
+
+export default noOuterDbInTransactionRule;
@@ -0,0 +1,172 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { NON_RESERVED_KEYWORDS, RESERVED_KEYWORDS } from "./utils/keywords";
+import { renameColumn, renameStringLiteral } from "./utils/naming-template";
+import { getColumnName, getSchemaModel } from "./utils/schema";
+
+type MessageIds = "reservedIdentifier" | "nonReservedIdentifier" | "rename";
+
+export interface Options {
+  /** Also report keywords PostgreSQL accepts but other SQL tools may not */
+  includeNonReserved?: boolean;
+  allow?: string[];
+}
+
+// Common names with a better alternative than the plural
+const ALTERNATIVES: Record<string, string[]> = {
+  user: ["users", "app_user"],
+  order: ["orders", "sort_order"],
+  group: ["groups", "user_group"],
+  from: ["sender", "from_address"],
+  to: ["recipient", "to_address"],
+  limit: ["max_count"],
+  offset: ["start_offset"],
+  default: ["is_default", "default_value"],
+  desc: ["description"],
+  end: ["ends_at", "end_date"],
+  check: ["check_result"],
+  table: ["table_name"],
+  column: ["column_name"],
+  primary: ["is_primary"],
+  unique: ["is_unique"],
+  date: ["event_date"],
+  time: ["event_time"],
+  timestamp: ["occurred_at"],
+  value: ["amount"],
+  position: ["sort_position"],
+  year: ["fiscal_year", "year_number"],
+};
+
+const noReservedIdentifiersRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
+  meta: {
+    type: "suggestion",
+    docs: {
+      description:
+        "Disallow PostgreSQL keywords as table, column, enum and view names.",
+      url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
+    },
+    hasSuggestions: true,
+    messages: {
+      reservedIdentifier:
+        "'{{name}}' is a reserved PostgreSQL keyword. This {{kind}} must be quoted in every raw SQL query",
+      nonReservedIdentifier:
+        "'{{name}}' is an SQL keyword. Some databases and SQL tools need this {{kind}} quoted",
+      rename: "Rename to '{{name}}'.",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          includeNonReserved: {
+            type: "boolean",
+          },
+          allow: {
+            type: "array",
+            items: { type: "string" },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  create(context) {
+    const options = context.options[0] || {};
+    const allow = (options.allow || []).map((name) => name.toLowerCase());
+    const sourceCode = context.sourceCode;
+
+    function getAlternatives(name: string): string[] {
+      const alternatives = ALTERNATIVES[name] ?? [pluralize(name)];
+      return alternatives.filter((alternative) => !isKeyword(alternative));
+    }
+
+    function isKeyword(name: string): boolean {
+      return RESERVED_KEYWORDS.has(name) || NON_RESERVED_KEYWORDS.has(name);
+    }
+
+    function check(
+      kind: string,
+      name: string | null,
+      node: TSESTree.Node | null,
+      rename: (alternative: string) => TSESLint.ReportFixFunction | null
+    ): void {
+      if (name === null || !node) {
+        return;
+      }
+
+      // Unquoted identifiers are folded to lowercase, so `User` is `user`
+      const lowerName = name.toLowerCase();
+      if (allow.includes(lowerName)) {
+        return;
+      }
+
+      let messageId: MessageIds;
+      if (RESERVED_KEYWORDS.has(lowerName)) {
+        messageId = "reservedIdentifier";
+      } else if (options.includeNonReserved && NON_RESERVED_KEYWORDS.has(lowerName)) {
+        messageId = "nonReservedIdentifier";
+      } else {
+        return;
+      }
+
+      const suggest: TSESLint.ReportSuggestionArray<MessageIds> = [];
+      for (const alternative of getAlternatives(lowerName)) {
+        const fix = rename(alternative);
+        if (fix) {
+          suggest.push({ messageId: "rename", data: { name: alternative }, fix });
+        }
+      }
+
+      context.report({
+        node,
+        messageId,
+        data: { name, kind },
+        suggest,
+      });
+    }
+
+    function renameLiteral(node: TSESTree.Node | null) {
+      return (alternative: string) =>
+        node ? renameStringLiteral(sourceCode, node, alternative) : null;
+    }
+
+    return {
+      Program() {
+        const model = getSchemaModel(sourceCode);
+
+        for (const table of model.tables) {
+          check("table", table.name, table.nameNode, renameLiteral(table.nameNode));
+
+          for (const column of table.columns) {
+            check(
+              "column",
+              getColumnName(column),
+              column.nameNode ?? column.keyNode,
+              (alternative) => renameColumn(sourceCode, column, alternative)
+            );
+          }
+        }
+
+        for (const entry of model.enums) {
+          check("enum", entry.name, entry.nameNode, renameLiteral(entry.nameNode));
+        }
+
+        for (const view of model.views) {
+          check("view", view.name, view.nameNode, renameLiteral(view.nameNode));
+        }
+      },
+    };
+  },
+};
+
+// user -> users, status -> statuses, category -> categories
+function pluralize(name: string): string {
+  if (/[^aeiou]y$/.test(name)) {
+    return `${name.slice(0, -1)}ies`;
+  }
+  if (/(s|x|z|ch|sh)$/.test(name)) {
+    return `${name}es`;
+  }
+  return `${name}s`;
+}
+
+export default noReservedIdentifiersRule;
@@ -1,9 +1,24 @@
-import type { TSESLint } from "@typescript-eslint/utils";
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import {
+  createDrizzleObjectMatcher,
+  drizzleObjectNameSchema,
+} from "./utils/drizzle-object";
+import type { DrizzleObjectName } from "./utils/drizzle-object";
+import { getDrizzleImports } from "./utils/imports";
+import { flattenRelations, getRelationalQuery, getRelations } from "./utils/relational-query";
+import { findProperty } from "./utils/schema";
+import { findSelectStars, getSqlTemplate, parseSql } from "./utils/sql";
 
-type MessageIds = "noSelectStar";
+type MessageIds = "noSelectStar" | "noSelectStarRaw" | "noRelationalColumns";
 
-const noSelectStarRule: TSESLint.RuleModule<MessageIds> = {
-  defaultOptions: [],
+export interface Options {
+  drizzleObjectName?: DrizzleObjectName;
+  /** Require `columns` on relational queries: the query itself, every loaded relation too, or neither */
+  relationalColumns?: "root" | "all" | "off";
+}
+
+const noSelectStarRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
   meta: {
     type: "suggestion",
     docs: {
@@ -14,18 +29,80 @@ const noSelectStarRule: TSESLint.RuleModule<MessageIds> = {
     messages: {
       noSelectStar:
         "Avoid SELECT *. Explicitly list columns for better performance and clarity",
+      noSelectStarRaw:
+        "Avoid SELECT * in raw SQL. Explicitly list columns for better performance and clarity",
+      noRelationalColumns:
+        "'{{name}}' loads every column. Add a `columns` selection for better performance and clarity",
     },
-    schema: [],
+    schema: [
+      {
+        type: "object",
+        properties: {
+          drizzleObjectName: drizzleObjectNameSchema,
+          relationalColumns: {
+            type: "string",
+            enum: ["root", "all", "off"],
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
   },
   create(context) {
+    const options = context.options[0] || {};
+    const isDrizzleObject = createDrizzleObjectMatcher(context, options.drizzleObjectName);
+    const relationalColumns = options.relationalColumns || "root";
+    const imports = getDrizzleImports(context.sourceCode.ast);
+
+    // sql`SELECT * FROM orders`
+    function checkRawSql(node: TSESTree.CallExpression | TSESTree.TaggedTemplateExpression): void {
+      const template = getSqlTemplate(imports, node);
+      if (template && parseSql(template.text).some((statement) => findSelectStars(statement).length > 0)) {
+        context.report({
+          node: template.node,
+          messageId: "noSelectStarRaw",
+        });
+      }
+    }
+
     return {
+      TaggedTemplateExpression: checkRawSql,
+
       CallExpression(node) {
+        checkRawSql(node);
+
+        // db.query.users.findMany({ columns: { ... } })
+        const query = relationalColumns !== "off" ? getRelationalQuery(node) : null;
+        if (query && !query.hasOpaqueConfig && isDrizzleObject(query.receiver)) {
+          if (!query.config || !findProperty(query.config, "columns")) {
+            context.report({
+              node: node.callee,
+              messageId: "noRelationalColumns",
+              data: { name: query.table },
+            });
+          }
+
+          if (relationalColumns === "all") {
+            for (const relation of flattenRelations(getRelations(query.config))) {
+              if (!relation.config || !findProperty(relation.config, "columns")) {
+                context.report({
+                  node: relation.node,
+                  messageId: "noRelationalColumns",
+                  data: { name: relation.path },
+                });
+              }
+            }
+          }
+          return;
+        }
+
         // Check for .select() with no arguments
         if (
           node.callee.type === "MemberExpression" &&
           node.callee.property.type === "Identifier" &&
           node.callee.property.name === "select" &&
-          node.arguments.length === 0
+          node.arguments.length === 0 &&
+          isDrizzleObject(node.callee.object)
         ) {
           // Make sure this is likely a database query (has from() or similar)
           let parent = node.parent;
@@ -0,0 +1,226 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { getDrizzleImports } from "./utils/imports";
+import {
+  DEFAULT_SENSITIVE_COLUMNS,
+  getDrizzlePolicies,
+  getParameterTableResolver,
+  getSensitiveColumns,
+  isSensitiveTable,
+  normalizeTableName,
+  parseCreatePolicy,
+  POLICY_COMMANDS,
+  sensitiveColumnsSchema,
+} from "./utils/rls";
+import type { PolicyCommand, RlsPolicy, SensitiveColumnPattern } from "./utils/rls";
+import { getQualifiedName, getSchemaModel } from "./utils/schema";
+import { getSqlTemplate, parseSql } from "./utils/sql";
+
+type MessageIds =
+  | "alwaysTrue"
+  | "publicRole"
+  | "missingWithCheck"
+  | "widensRestrictive"
+  | "uncoveredCommands";
+
+export interface Options {
+  sensitiveTables?: string[];
+  sensitivePatterns?: string[];
+  /** Columns that make a table sensitive, by name and/or column type */
+  sensitiveColumns?: Array<string | SensitiveColumnPattern>;
+  /** Commands every sensitive table with policies needs a permissive policy for */
+  requiredCommands?: PolicyCommand[];
+}
+
+interface PolicyTable {
+  /** The table declaration, when it is in this file */
+  node: TSESTree.Node | null;
+  policies: RlsPolicy[];
+  /** Whether the declaration has columns matching `sensitiveColumns` */
+  hasSensitiveColumns: boolean;
+}
+
+const noUnsafeRLSPolicyRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow RLS policies on sensitive tables that let every row or every role through.",
+      url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
+    },
+    messages: {
+      alwaysTrue:
+        "Policy '{{policy}}' on sensitive table '{{table}}' has an always-true {{clause}} expression and lets every row through.",
+      publicRole:
+        "Policy '{{policy}}' on sensitive table '{{table}}' applies to every role (PUBLIC). Grant it to the roles that need it.",
+      missingWithCheck:
+        "{{command}} policy '{{policy}}' on sensitive table '{{table}}' has no WITH CHECK expression. Add one to limit the rows that can be written.",
+      widensRestrictive:
+        "Permissive policy '{{policy}}' grants {{commands}} on '{{table}}' to roles no restrictive policy covers, so it bypasses the restrictive policies.",
+      uncoveredCommands:
+        "Sensitive table '{{table}}' has no policy for {{commands}}. Add a policy, or leave these commands out of requiredCommands if they should be denied.",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          sensitiveTables: {
+            type: "array",
+            items: { type: "string" },
+          },
+          sensitivePatterns: {
+            type: "array",
+            items: { type: "string" },
+          },
+          sensitiveColumns: sensitiveColumnsSchema,
+          requiredCommands: {
+            type: "array",
+            items: { type: "string", enum: POLICY_COMMANDS },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  create(context) {
+    const options = context.options[0] || {};
+    const requiredCommands = options.requiredCommands || POLICY_COMMANDS;
+    const sensitiveColumns = options.sensitiveColumns || DEFAULT_SENSITIVE_COLUMNS;
+    const imports = getDrizzleImports(context.sourceCode.ast);
+    // Tables with policies, by normalised table name
+    const tables = new Map<string, PolicyTable>();
+    // crudPolicy() declares several policies, all reported on the same call
+    const reported = new Set<string>();
+
+    function getTable(name: string): PolicyTable {
+      let table = tables.get(name);
+      if (!table) {
+        table = { node: null, policies: [], hasSensitiveColumns: false };
+        tables.set(name, table);
+      }
+      return table;
+    }
+
+    function checkRawSql(node: TSESTree.CallExpression | TSESTree.TaggedTemplateExpression): void {
+      const template = getSqlTemplate(imports, node);
+      if (!template) {
+        return;
+      }
+
+      // sql`ALTER TABLE ${users} ...` names the table through its variable
+      const resolveTable = getParameterTableResolver(getSchemaModel(context.sourceCode), template);
+      for (const { tokens } of parseSql(template.text)) {
+        const policy = parseCreatePolicy(tokens, template.node, resolveTable);
+        if (policy) {
+          getTable(policy.table).policies.push(policy);
+        }
+      }
+    }
+
+    function report(
+      node: TSESTree.Node,
+      messageId: MessageIds,
+      data: { policy: string; table: string } & Record<string, string>
+    ): void {
+      const key = [messageId, node.range.join(":"), data.policy, data.table].join("|");
+      if (!reported.has(key)) {
+        reported.add(key);
+        context.report({ node, messageId, data });
+      }
+    }
+
+    function checkPolicy(policy: RlsPolicy, restrictive: RlsPolicy[]): void {
+      const data = { policy: policy.name ?? "(unnamed)", table: policy.table };
+
+      for (const [clause, predicate] of [["USING", policy.using], ["WITH CHECK", policy.withCheck]] as const) {
+        if (predicate?.alwaysTrue && !(clause === "WITH CHECK" && predicate.node === policy.using?.node)) {
+          report(predicate.node, "alwaysTrue", { ...data, clause });
+        }
+      }
+
+      if (policy.roles.includes("public")) {
+        report(policy.node, "publicRole", data);
+      }
+
+      // FOR ALL reuses USING as the check; single write commands should state it
+      const [command, ...others] = policy.commands;
+      if ((command === "insert" || command === "update") && others.length === 0 && !policy.withCheck) {
+        report(policy.node, "missingWithCheck", { ...data, command: command.toUpperCase() });
+      }
+
+      // Restrictive policies only narrow the commands and roles they apply to
+      if (!policy.restrictive && restrictive.length > 0) {
+        const uncovered = policy.commands.filter(
+          (candidate) =>
+            !restrictive.some(
+              (other) => other.commands.includes(candidate) && coversRoles(other.roles, policy.roles)
+            )
+        );
+        if (uncovered.length > 0) {
+          report(policy.node, "widensRestrictive", { ...data, commands: formatCommands(uncovered) });
+        }
+      }
+    }
+
+    return {
+      Program() {
+        for (const table of getSchemaModel(context.sourceCode).tables) {
+          const qualifiedName = getQualifiedName(table);
+          if (qualifiedName === null) {
+            continue;
+          }
+          const tableName = normalizeTableName(qualifiedName);
+          const entry = getTable(tableName);
+          entry.node = table.node;
+          // Same classification as require-rls-enabled
+          entry.hasSensitiveColumns = getSensitiveColumns(table, sensitiveColumns).length > 0;
+          for (const policy of table.policies) {
+            entry.policies.push(...getDrizzlePolicies(imports, policy, tableName));
+          }
+        }
+      },
+
+      TaggedTemplateExpression: checkRawSql,
+      CallExpression: checkRawSql,
+
+      "Program:exit"() {
+        tables.forEach(({ node, policies, hasSensitiveColumns }, tableName) => {
+          const [firstPolicy] = policies;
+          const name = tableName.slice(tableName.lastIndexOf(".") + 1);
+          if (!firstPolicy || !(hasSensitiveColumns || isSensitiveTable(options, name, tableName))) {
+            return;
+          }
+
+          const restrictive = policies.filter((policy) => policy.restrictive);
+          for (const policy of policies) {
+            checkPolicy(policy, restrictive);
+          }
+
+          // Restrictive policies grant nothing on their own
+          const uncovered = requiredCommands.filter(
+            (command) =>
+              !policies.some((policy) => !policy.restrictive && policy.commands.includes(command))
+          );
+          if (uncovered.length > 0) {
+            context.report({
+              node: node ?? firstPolicy.node,
+              messageId: "uncoveredCommands",
+              data: { table: tableName, commands: formatCommands(uncovered) },
+            });
+          }
+        });
+      },
+    };
+  },
+};
+
+// Whether a restrictive policy for `covering` roles applies to every role in `roles`
+function coversRoles(covering: string[], roles: string[]): boolean {
+  return covering.includes("public") || roles.every((role) => role !== "public" && covering.includes(role));
+}
+
+function formatCommands(commands: PolicyCommand[]): string {
+  return commands.map((command) => command.toUpperCase()).join(", ");
+}
+
+export default noUnsafeRLSPolicyRule;
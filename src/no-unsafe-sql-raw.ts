@@ -0,0 +1,194 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { getDrizzleImports, resolveDrizzleName } from "./utils/imports";
+import { findVariable } from "./utils/query-chain";
+
+type MessageIds = "unsafeSqlRaw" | "unsafeSqlIdentifier" | "useSqlTemplate";
+
+export interface Options {
+  allowedConstants?: string[];
+}
+
+const noUnsafeSqlRawRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow dynamic values in `sql.raw()` and `sql.identifier()`, which are inserted into the query without parameters.",
+      url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
+    },
+    hasSuggestions: true,
+    messages: {
+      unsafeSqlRaw:
+        "`sql.raw()` inserts this dynamic value into the query as-is, which allows SQL injection. Interpolate values with sql`...${value}` so they are sent as parameters.",
+      unsafeSqlIdentifier:
+        "`sql.identifier()` is called with a dynamic value, which lets the caller pick any table or column. Map the input to a fixed set of names first.",
+      useSqlTemplate: "Use a parameterised sql`...` template instead.",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          allowedConstants: {
+            type: "array",
+            items: { type: "string" },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  create(context) {
+    const options = context.options[0] || {};
+    const allowedConstants = options.allowedConstants || [];
+    const sourceCode = context.sourceCode;
+    const imports = getDrizzleImports(sourceCode.ast);
+
+    // Whether the value is known when the code is written
+    function isStatic(node: TSESTree.Node, seen: Set<TSESTree.Node>): boolean {
+      switch (node.type) {
+        case "Literal":
+          return node.value === null || typeof node.value !== "object";
+        case "TemplateLiteral":
+          return node.expressions.every((expression) => isStatic(expression, seen));
+        case "BinaryExpression":
+          return node.operator === "+" && isStatic(node.left, seen) && isStatic(node.right, seen);
+        // dir === "desc" ? "DESC" : "ASC"
+        case "ConditionalExpression":
+          return isStatic(node.consequent, seen) && isStatic(node.alternate, seen);
+        case "LogicalExpression":
+          return isStatic(node.left, seen) && isStatic(node.right, seen);
+        case "TSAsExpression":
+        case "TSSatisfiesExpression":
+        case "TSNonNullExpression":
+          return isStatic(node.expression, seen);
+        case "ArrayExpression":
+          return node.elements.every((element) => element !== null && isStatic(element, seen));
+        case "ObjectExpression":
+          return node.properties.every(
+            (property) => property.type === "Property" && isStatic(property.value, seen)
+          );
+        case "Identifier":
+          return allowedConstants.includes(node.name) || isStaticConstant(node, seen);
+        // SORT_COLUMNS[input] can only be one of the constant's values
+        case "MemberExpression":
+          return (
+            allowedConstants.includes(sourceCode.getText(node)) ||
+            isStatic(node.object, seen)
+          );
+        default:
+          return false;
+      }
+    }
+
+    function isStaticConstant(node: TSESTree.Identifier, seen: Set<TSESTree.Node>): boolean {
+      const definition = findVariable(sourceCode.getScope(node), node.name)?.defs[0];
+      if (
+        definition?.type !== "Variable" ||
+        definition.parent.kind !== "const" ||
+        !definition.node.init ||
+        seen.has(definition.node.init)
+      ) {
+        return false;
+      }
+
+      // Guard against self-referencing initialisers
+      seen.add(definition.node.init);
+      const result = isStatic(definition.node.init, seen);
+      seen.delete(definition.node.init);
+      return result;
+    }
+
+    // Rewrite the argument as a template whose dynamic parts become parameters
+    function toSqlTemplate(tag: string, node: TSESTree.Expression): string {
+      const parts: { text: string; dynamic: boolean }[] = [];
+
+      function collect(part: TSESTree.Expression): void {
+        if (
+          part.type === "BinaryExpression" &&
+          part.operator === "+" &&
+          part.left.type !== "PrivateIdentifier"
+        ) {
+          collect(part.left);
+          collect(part.right);
+        } else if (part.type === "Literal" && typeof part.value === "string") {
+          parts.push({ text: escapeTemplateText(part.value), dynamic: false });
+        } else if (part.type === "TemplateLiteral") {
+          part.quasis.forEach((quasi, index) => {
+            parts.push({ text: quasi.value.raw, dynamic: false });
+            const expression = part.expressions[index];
+            if (expression) {
+              parts.push({ text: sourceCode.getText(expression), dynamic: true });
+            }
+          });
+        } else {
+          parts.push({ text: sourceCode.getText(part), dynamic: true });
+        }
+      }
+
+      collect(node);
+
+      // '${id}' would send the placeholder as text: a parameter needs no quotes
+      parts.forEach((part, index) => {
+        const before = parts[index - 1];
+        const after = parts[index + 1];
+        if (
+          part.dynamic &&
+          before?.dynamic === false &&
+          after?.dynamic === false &&
+          before.text.endsWith("'") &&
+          after.text.startsWith("'")
+        ) {
+          before.text = before.text.slice(0, -1);
+          after.text = after.text.slice(1);
+        }
+      });
+
+      const text = parts.map((part) => (part.dynamic ? `\${${part.text}}` : part.text)).join("");
+      return `${tag}\`${text}\``;
+    }
+
+    return {
+      CallExpression(node) {
+        const callee = node.callee;
+        if (
+          callee.type !== "MemberExpression" ||
+          callee.computed ||
+          callee.property.type !== "Identifier" ||
+          (callee.property.name !== "raw" && callee.property.name !== "identifier") ||
+          resolveDrizzleName(imports, callee.object) !== "sql"
+        ) {
+          return;
+        }
+
+        const argument = node.arguments[0];
+        if (!argument || argument.type === "SpreadElement" || isStatic(argument, new Set())) {
+          return;
+        }
+
+        if (callee.property.name === "identifier") {
+          context.report({ node: argument, messageId: "unsafeSqlIdentifier" });
+          return;
+        }
+
+        const tag = sourceCode.getText(callee.object);
+        context.report({
+          node: argument,
+          messageId: "unsafeSqlRaw",
+          suggest: [
+            {
+              messageId: "useSqlTemplate",
+              fix: (fixer) => fixer.replaceText(node, toSqlTemplate(tag, argument)),
+            },
+          ],
+        });
+      },
+    };
+  },
+};
+
+function escapeTemplateText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/`/g, "\\`").replace(/\$\{/g, "\\${");
+}
+
+export default noUnsafeSqlRawRule;
@@ -1,60 +1,303 @@
 import type { TSESLint } from "@typescript-eslint/utils";
+import { getImportReference } from "./utils/imports";
+import type { ImportReference } from "./utils/imports";
+import { getSchemaModel } from "./utils/schema";
+import type { DrizzleColumn, DrizzleTable } from "./utils/schema";
 
-type MessageIds = "useUUID";
+type MessageIds = "primaryKeyStrategy" | "highVolumeIntegerKey" | "useStrategy" | "useBigint";
 
-const preferUuidRule: TSESLint.RuleModule<MessageIds> = {
-  defaultOptions: [],
+export type PrimaryKeyStrategy = "uuid" | "uuidv7" | "identity" | "text";
+
+export interface Options {
+  strategy?: PrimaryKeyStrategy;
+  /** Function generating ids for the `uuidv7` and `text` strategies, e.g. `createId` */
+  idGenerator?: string;
+  /** Module the fixer imports `idGenerator` from, e.g. `@paralleldrive/cuid2` */
+  idGeneratorSource?: string;
+  /** Tables whose keys may outgrow a 32-bit integer */
+  highVolumeTables?: string[];
+}
+
+const DEFAULT_GENERATORS: Record<"uuidv7" | "text", { name: string; source: string }> = {
+  uuidv7: { name: "uuidv7", source: "uuidv7" },
+  text: { name: "createId", source: "@paralleldrive/cuid2" },
+};
+
+const STRATEGY_BUILDERS: Record<PrimaryKeyStrategy, string[]> = {
+  uuid: ["uuid"],
+  uuidv7: ["uuid"],
+  identity: ["integer", "bigint", "smallint"],
+  text: ["text", "varchar"],
+};
+
+// Builder the fixer switches to
+const TARGET_BUILDERS: Record<PrimaryKeyStrategy, string> = {
+  uuid: "uuid",
+  uuidv7: "uuid",
+  identity: "bigint",
+  text: "text",
+};
+
+// Modifiers that generate the key, replaced by the fixer
+const GENERATOR_MODIFIERS = [
+  "default",
+  "defaultRandom",
+  "$default",
+  "$defaultFn",
+  "generatedAlwaysAsIdentity",
+  "generatedByDefaultAsIdentity",
+];
+
+const IDENTITY_MODIFIERS = ["generatedAlwaysAsIdentity", "generatedByDefaultAsIdentity"];
+
+const SEQUENCE_BUILDERS = ["serial", "bigserial", "smallserial"];
+
+const INTEGER_BUILDERS: Record<string, string> = {
+  integer: "bigint",
+  smallint: "bigint",
+  serial: "bigserial",
+  smallserial: "bigserial",
+};
+
+const preferUuidRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
   meta: {
     type: "suggestion",
     docs: {
       description:
-        "Suggest using UUID for primary keys instead of serial/integer.",
+        "Enforce one strategy for generating primary keys, UUIDs by default.",
       url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
     },
     hasSuggestions: true,
     messages: {
-      useUUID:
-        "Consider using UUID for primary keys instead of serial/integer for better scalability",
+      primaryKeyStrategy:
+        "Primary key '{{column}}' of table '{{tableName}}' should be {{expected}}",
+      highVolumeIntegerKey:
+        "Table '{{tableName}}' is marked as high-volume, but its primary key '{{column}}' is a 32-bit integer that runs out after 2,147,483,647 rows. Use a 64-bit key",
+      useStrategy: "Change the column to {{expected}}.",
+      useBigint: "Change the column to `{{builder}}`.",
     },
-    schema: [],
+    schema: [
+      {
+        type: "object",
+        properties: {
+          strategy: {
+            type: "string",
+            enum: ["uuid", "uuidv7", "identity", "text"],
+          },
+          idGenerator: {
+            type: "string",
+          },
+          idGeneratorSource: {
+            type: "string",
+          },
+          highVolumeTables: {
+            type: "array",
+            items: { type: "string" },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
   },
   create(context) {
+    const options = context.options[0] || {};
+    const strategy = options.strategy || "uuid";
+    const highVolumeTables = options.highVolumeTables || [];
+    const sourceCode = context.sourceCode;
+
+    const defaultGenerator =
+      strategy === "uuidv7" || strategy === "text" ? DEFAULT_GENERATORS[strategy] : null;
+    const generator = options.idGenerator
+      ? { name: options.idGenerator, source: options.idGeneratorSource ?? null }
+      : defaultGenerator;
+
+    const expected = {
+      uuid: "`uuid().defaultRandom()`",
+      uuidv7: `\`uuid().$defaultFn(() => ${generator?.name}())\``,
+      identity: "an identity column, `bigint().generatedAlwaysAsIdentity()`",
+      text: `\`text().$defaultFn(() => ${generator?.name}())\``,
+    }[strategy];
+
+    function hasModifier(column: DrizzleColumn, names: string[]): boolean {
+      return column.modifiers.some((modifier) => names.includes(modifier.name));
+    }
+
+    function followsStrategy(column: DrizzleColumn): boolean {
+      if (!STRATEGY_BUILDERS[strategy].includes(column.builder)) {
+        return false;
+      }
+      switch (strategy) {
+        case "uuid":
+          return column.hasDefault;
+        case "identity":
+          return hasModifier(column, IDENTITY_MODIFIERS);
+        default:
+          return hasModifier(column, ["$default", "$defaultFn"]) || isUuidv7Default(column);
+      }
+    }
+
+    // uuid().default(sql`uuidv7()`), PostgreSQL 18's own generator
+    function isUuidv7Default(column: DrizzleColumn): boolean {
+      const defaultCall = column.modifiers.find((modifier) => modifier.name === "default");
+      return (
+        strategy === "uuidv7" &&
+        defaultCall !== undefined &&
+        /\buuidv7\s*\(/.test(sourceCode.getText(defaultCall.node))
+      );
+    }
+
+    // Builder callee as written in the file: `t.uuid` in the callback form, `pg.uuid` or `uuid`
+    function getBuilderReference(column: DrizzleColumn, builder: string): ImportReference {
+      const callee = column.builderNode.callee;
+      if (callee.type === "MemberExpression" && callee.object.type === "Identifier") {
+        return { text: `${callee.object.name}.${builder}`, fix: null };
+      }
+      return getImportReference(sourceCode.ast, builder, "drizzle-orm/pg-core");
+    }
+
+    function getBuilderCall(
+      column: DrizzleColumn,
+      builder: string,
+      config: string | null
+    ): ImportReference {
+      const args = [column.nameNode ? sourceCode.getText(column.nameNode) : null, config]
+        .filter((arg): arg is string => arg !== null)
+        .join(", ");
+      const reference = getBuilderReference(column, builder);
+      return { text: `${reference.text}(${args})`, fix: reference.fix };
+    }
+
+    // serial("id").primaryKey().notNull() -> uuid("id").defaultRandom().primaryKey().notNull()
+    function fixStrategy(column: DrizzleColumn): TSESLint.ReportFixFunction {
+      const builder: ImportReference = STRATEGY_BUILDERS[strategy].includes(column.builder)
+        ? { text: sourceCode.getText(column.builderNode), fix: null }
+        : getBuilderCall(
+            column,
+            TARGET_BUILDERS[strategy],
+            strategy === "identity" ? '{ mode: "number" }' : null
+          );
+
+      let generatorCall: string;
+      let generatorImport: ImportReference["fix"] = null;
+      if (strategy === "uuid") {
+        generatorCall = ".defaultRandom()";
+      } else if (strategy === "identity") {
+        generatorCall = ".generatedAlwaysAsIdentity()";
+      } else {
+        const name = generator?.name ?? "";
+        const reference = generator?.source
+          ? getImportReference(sourceCode.ast, name, generator.source)
+          : { text: name, fix: null };
+        generatorCall = `.$defaultFn(() => ${reference.text}())`;
+        generatorImport = reference.fix;
+      }
+
+      return (fixer) => {
+        const fixes = [fixer.replaceText(column.builderNode, builder.text + generatorCall)];
+        for (const modifier of column.modifiers) {
+          if (GENERATOR_MODIFIERS.includes(modifier.name)) {
+            const callee = modifier.node.callee;
+            const start =
+              callee.type === "MemberExpression" ? callee.object.range[1] : modifier.node.range[0];
+            fixes.push(fixer.removeRange([start, modifier.node.range[1]]));
+          }
+        }
+        for (const importFix of [builder.fix, generatorImport]) {
+          if (importFix) {
+            fixes.push(importFix(fixer));
+          }
+        }
+        return fixes;
+      };
+    }
+
+    // integer("id") -> bigint("id", { mode: "number" })
+    function fixBigint(column: DrizzleColumn, builder: string): TSESLint.ReportFixFunction {
+      const call = getBuilderCall(column, builder, '{ mode: "number" }');
+      return (fixer) => {
+        const fixes = [fixer.replaceText(column.builderNode, call.text)];
+        if (call.fix) {
+          fixes.push(call.fix(fixer));
+        }
+        return fixes;
+      };
+    }
+
+    // Columns of the primary key that need checking
+    function getKeyColumns(table: DrizzleTable): DrizzleColumn[] {
+      // Keys that reference another table take that table's ids
+      const foreignKeys = new Set(
+        table.constraints
+          .filter((constraint) => constraint.kind === "foreignKey")
+          .flatMap((constraint) => constraint.columns)
+      );
+      const isGenerated = (column: DrizzleColumn) =>
+        column.hasDefault ||
+        SEQUENCE_BUILDERS.includes(column.builder) ||
+        hasModifier(column, IDENTITY_MODIFIERS);
+
+      const keyColumns = table.columns.filter((column) => column.isPrimaryKey);
+      for (const constraint of table.constraints) {
+        if (constraint.kind !== "primaryKey") {
+          continue;
+        }
+        const columns = table.columns.filter((column) => constraint.columns.includes(column.key));
+        // Composite keys often combine natural values, so only check generated parts
+        keyColumns.push(...(columns.length > 1 ? columns.filter(isGenerated) : columns));
+      }
+
+      return keyColumns.filter(
+        (column) => column.references === null && !foreignKeys.has(column.key)
+      );
+    }
+
     return {
-      CallExpression(node) {
-        // Check for serial().primaryKey() pattern
-        if (
-          node.callee.type === "MemberExpression" &&
-          node.callee.property.type === "Identifier" &&
-          node.callee.property.name === "primaryKey" &&
-          node.callee.object.type === "CallExpression" &&
-          node.callee.object.callee.type === "Identifier" &&
-          (node.callee.object.callee.name === "serial" ||
-           node.callee.object.callee.name === "integer")
-        ) {
-          const columnNameArg = node.callee.object.arguments[0];
-          const columnName = columnNameArg?.type === "Literal" && typeof columnNameArg.value === "string"
-            ? columnNameArg.value
-            : "id";
-
-          context.report({
-            node,
-            messageId: "useUUID",
-            suggest: [
-              {
-                messageId: "useUUID" as const,
-                fix(fixer) {
-                  return fixer.replaceText(
-                    node,
-                    `uuid('${columnName}').defaultRandom().primaryKey()`
-                  );
-                },
-              },
-            ],
-          });
+      Program() {
+        for (const table of getSchemaModel(sourceCode).tables) {
+          // The strategies are built on PostgreSQL column types
+          if (table.dialect !== "pg") {
+            continue;
+          }
+
+          const tableName = table.name ?? table.variableName ?? "";
+          for (const column of getKeyColumns(table)) {
+            if (!followsStrategy(column)) {
+              context.report({
+                node: column.node,
+                messageId: "primaryKeyStrategy",
+                data: { column: column.key, tableName, expected },
+                suggest: [
+                  {
+                    messageId: "useStrategy",
+                    data: { expected },
+                    fix: fixStrategy(column),
+                  },
+                ],
+              });
+              continue;
+            }
+
+            const bigBuilder = INTEGER_BUILDERS[column.builder];
+            if (table.name !== null && highVolumeTables.includes(table.name) && bigBuilder) {
+              context.report({
+                node: column.node,
+                messageId: "highVolumeIntegerKey",
+                data: { column: column.key, tableName },
+                suggest: [
+                  {
+                    messageId: "useBigint",
+                    data: { builder: bigBuilder },
+                    fix: fixBigint(column, bigBuilder),
+                  },
+                ],
+              });
+            }
+          }
         }
       },
     };
   },
 };
 
-export default preferUuidRule;
\ No newline at end of file
+export default preferUuidRule;
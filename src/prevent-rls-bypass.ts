@@ -1,4 +1,6 @@
 import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { getDrizzleImports } from "./utils/imports";
+import { getSqlTemplate, matchKeywords, parseSql } from "./utils/sql";
 
 type MessageIds = "bypassDetected" | "missingRLSComment";
 
@@ -20,6 +22,8 @@ const preventRLSBypassRule: TSESLint.RuleModule<MessageIds> = {
     schema: [],
   },
   create(context) {
+    const imports = getDrizzleImports(context.sourceCode.ast);
+
     // Pattern to check for RLS bypass explanations in comments
     const validBypassReasons = [
       /RLS\s+bypass/i,
@@ -41,7 +45,27 @@ const preventRLSBypassRule: TSESLint.RuleModule<MessageIds> = {
       );
     }
 
+    // Check for SECURITY DEFINER functions
+    function checkRawSql(node: TSESTree.CallExpression | TSESTree.TaggedTemplateExpression): void {
+      const template = getSqlTemplate(imports, node);
+      if (
+        template &&
+        parseSql(template.text).some(({ tokens }) =>
+          tokens.some((_, index) => matchKeywords(tokens, index, "SECURITY", "DEFINER"))
+        ) &&
+        !hasValidBypassComment(node)
+      ) {
+        context.report({
+          node,
+          messageId: "bypassDetected",
+          data: { method: "SECURITY DEFINER" },
+        });
+      }
+    }
+
     return {
+      TaggedTemplateExpression: checkRawSql,
+
       MemberExpression(node) {
         // Check for .rls().bypass() pattern
         if (
@@ -115,26 +139,7 @@ const preventRLSBypassRule: TSESLint.RuleModule<MessageIds> = {
           }
         }
 
-        // Check for SECURITY DEFINER functions
-        if (
-          node.callee.type === "Identifier" &&
-          node.callee.name === "sql" &&
-          node.arguments[0]?.type === "TemplateLiteral"
-        ) {
-          const sqlContent = node.arguments[0].quasis
-            .map((quasi) => quasi.value.raw)
-            .join("");
-
-          if (/SECURITY\s+DEFINER/i.test(sqlContent)) {
-            if (!hasValidBypassComment(node)) {
-              context.report({
-                node,
-                messageId: "bypassDetected",
-                data: { method: "SECURITY DEFINER" },
-              });
-            }
-          }
-        }
+        checkRawSql(node);
       },
     };
   },
@@ -1,12 +1,51 @@
 import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { getDrizzleImports } from "./utils/imports";
+import { getColumnName, getQualifiedName, getSchemaModel } from "./utils/schema";
+import {
+  DEFAULT_SENSITIVE_COLUMNS,
+  getParameterTableResolver,
+  getSensitiveColumns,
+  isSensitiveTable,
+  normalizeTableName,
+  parseAlterTable,
+  parseCreatePolicy,
+  sensitiveColumnsSchema,
+} from "./utils/rls";
+import type { AlterTableRls, SensitiveColumnPattern } from "./utils/rls";
+import { toPosixPath } from "./utils/glob";
+import { getRlsSources } from "./utils/rls-sources";
+import { getSqlTemplate, parseSql } from "./utils/sql";
 
-type MessageIds = "missingRLS" | "missingPolicy";
+type MessageIds =
+  | "missingRLS"
+  | "missingRLSForColumns"
+  | "disabledRLS"
+  | "missingPolicy"
+  | "missingForceRLS"
+  | "missingExemptReason";
 
 export interface Options {
   sensitiveTables?: string[];
   sensitivePatterns?: string[];
+  /** Columns that make a table sensitive, by name and/or column type */
+  sensitiveColumns?: Array<string | SensitiveColumnPattern>;
+  /** Roles the application connects as; tables they own must FORCE row level security */
+  appRoles?: string[];
+  /** Files or globs with RLS statements and policies for tables declared elsewhere, e.g. migrations */
+  rlsSources?: string[];
 }
 
+interface RlsState {
+  enabled: boolean;
+  /** The sql`...` that disabled RLS last, if it is disabled */
+  disabledBy: TSESTree.Node | null;
+  forced: boolean;
+  owner: string | null;
+}
+
+// `// rls-exempt: <reason>` before a table opts it out of the rule
+const EXEMPT_COMMENT = /^rls-exempt\b:?([\s\S]*)$/i;
+
 const requireRLSRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
   defaultOptions: [{}],
   meta: {
@@ -18,7 +57,15 @@ const requireRLSRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
     },
     messages: {
       missingRLS:
-        "Table '{{table}}' contains sensitive data and should have RLS enabled. Add RLS with: sql`ALTER TABLE {{table}} ENABLE ROW LEVEL SECURITY`",
+        "Table '{{table}}' contains sensitive data and should have RLS enabled. Declare it with pgTable.withRLS(...) or pgPolicy(...), or add RLS with: sql`ALTER TABLE {{table}} ENABLE ROW LEVEL SECURITY`",
+      missingRLSForColumns:
+        "Table '{{table}}' has sensitive columns ({{columns}}) and should have RLS enabled. Declare it with pgTable.withRLS(...) or pgPolicy(...), or add RLS with: sql`ALTER TABLE {{table}} ENABLE ROW LEVEL SECURITY`",
+      disabledRLS:
+        "Table '{{table}}' contains sensitive data but RLS is disabled here.",
+      missingForceRLS:
+        "Table '{{table}}' is owned by the application role '{{role}}', which bypasses RLS unless it is forced. Add: sql`ALTER TABLE {{table}} FORCE ROW LEVEL SECURITY`",
+      missingExemptReason:
+        "The rls-exempt comment on table '{{table}}' needs a reason, e.g. // rls-exempt: public reference data",
       missingPolicy:
         "Table '{{table}}' has RLS enabled but no policies defined. This will block all access.",
     },
@@ -34,6 +81,15 @@ const requireRLSRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
             type: "array",
             items: { type: "string" },
           },
+          sensitiveColumns: sensitiveColumnsSchema,
+          appRoles: {
+            type: "array",
+            items: { type: "string" },
+          },
+          rlsSources: {
+            type: "array",
+            items: { type: "string" },
+          },
         },
         additionalProperties: false,
       },
@@ -41,111 +97,183 @@ const requireRLSRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
   },
   create(context) {
     const options = context.options[0] || {};
-    const sensitiveTables = options.sensitiveTables || [];
-    const sensitivePatterns = options.sensitivePatterns || [
-      "user",
-      "account",
-      "profile",
-      "payment",
-      "order",
-      "invoice",
-      "medical",
-      "health",
-      "personal",
-      "private",
-      "auth",
-      "session",
-      "token",
-    ];
-
-    const tablesFound = new Map<string, TSESTree.Node>();
-    const tablesWithRLS = new Set<string>();
+    const sensitiveColumns = options.sensitiveColumns || DEFAULT_SENSITIVE_COLUMNS;
+    const imports = getDrizzleImports(context.sourceCode.ast);
+    const tablesFound = new Map<string, { name: string; columns: string[]; node: TSESTree.Node }>();
+    const appRoles = options.appRoles || [];
+    // RLS settings in source order, so a later DISABLE undoes an ENABLE
+    const rlsStates = new Map<string, RlsState>();
     const tablesWithPolicies = new Set<string>();
 
-    // Helper to check if a table name is sensitive
-    function isSensitiveTable(tableName: string): boolean {
-      const lowerName = tableName.toLowerCase();
+    function getRlsState(tableName: string): RlsState {
+      let state = rlsStates.get(tableName);
+      if (!state) {
+        state = { enabled: false, disabledBy: null, forced: false, owner: null };
+        rlsStates.set(tableName, state);
+      }
+      return state;
+    }
 
-      if (sensitiveTables.includes(tableName)) {
-        return true;
+    // Reason of an `// rls-exempt: <reason>` comment before the table's statement,
+    // an empty string when the reason is missing, or null without such a comment
+    function getExemptReason(node: TSESTree.Node): string | null {
+      let statement = node;
+      while (
+        statement.parent &&
+        !["Program", "BlockStatement", "TSModuleBlock"].includes(statement.parent.type)
+      ) {
+        statement = statement.parent;
       }
 
-      return sensitivePatterns.some((pattern) =>
-        lowerName.includes(pattern.toLowerCase())
-      );
+      for (const comment of context.sourceCode.getCommentsBefore(statement)) {
+        const match = EXEMPT_COMMENT.exec(comment.value.trim());
+        if (match) {
+          return (match[1] ?? "").trim();
+        }
+      }
+      return null;
     }
 
-    // Helper to check if this is a table definition call
-    function isTableCall(node: TSESTree.CallExpression): boolean {
-      if (node.callee.type === "Identifier") {
-        return ["pgTable", "mysqlTable", "sqliteTable"].includes(
-          node.callee.name
-        );
+    // `node` is the sql`...` in this file making the change, or null for other files
+    function applyChange(change: AlterTableRls, node: TSESTree.Node | null): void {
+      const state = getRlsState(change.table);
+      if (change.enabled !== null) {
+        state.enabled = change.enabled;
+        state.disabledBy = change.enabled ? null : node;
+      }
+      state.forced = change.forced ?? state.forced;
+      state.owner = change.owner ?? state.owner;
+    }
+
+    // Track sql`...` templates changing RLS and creating policies
+    function checkRawSql(node: TSESTree.CallExpression | TSESTree.TaggedTemplateExpression): void {
+      const template = getSqlTemplate(imports, node);
+      if (!template) {
+        return;
+      }
+
+      // sql`ALTER TABLE ${users} ...` names the table through its variable
+      const resolveTable = getParameterTableResolver(getSchemaModel(context.sourceCode), template);
+      for (const { tokens } of parseSql(template.text)) {
+        // ALTER TABLE users ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY
+        const change = parseAlterTable(tokens, resolveTable);
+        if (change) {
+          applyChange(change, node);
+        }
+
+        // CREATE POLICY users_select ON users ...
+        const policy = parseCreatePolicy(tokens, template.node, resolveTable);
+        if (policy) {
+          tablesWithPolicies.add(policy.table);
+        }
       }
-      return false;
     }
 
     return {
-      CallExpression(node) {
-        // Track table definitions
-        if (isTableCall(node)) {
-          const tableNameArg = node.arguments[0];
-          if (
-            tableNameArg?.type === "Literal" &&
-            typeof tableNameArg.value === "string"
-          ) {
-            const tableName = tableNameArg.value;
-            tablesFound.set(tableName, node);
-          }
+      Program() {
+        // Statements in other files come first, so this file's own statements win
+        const filename = toPosixPath(context.filename);
+        const sources = getRlsSources(context, options.rlsSources || []).filter(
+          (source) => source.path !== filename
+        );
+        for (const source of sources) {
+          source.changes.forEach((change) => applyChange(change, null));
+          source.policyTables.forEach((tableName) => tablesWithPolicies.add(tableName));
         }
 
-        // Track sql`...` template literals for RLS and policies
-        if (
-          node.callee.type === "Identifier" &&
-          node.callee.name === "sql" &&
-          node.arguments[0]?.type === "TemplateLiteral"
-        ) {
-          const templateLiteral = node.arguments[0];
-          const sqlContent = templateLiteral.quasis
-            .map((quasi) => quasi.value.raw)
-            .join("");
-
-          // Check for RLS enablement
-          const rlsMatch = /ALTER\s+TABLE\s+["']?(\w+)["']?\s+ENABLE\s+ROW\s+LEVEL\s+SECURITY/i.exec(
-            sqlContent
-          );
-          if (rlsMatch && rlsMatch[1]) {
-            tablesWithRLS.add(rlsMatch[1]);
+        // Track table definitions, with RLS declared through pgTable.withRLS() and pgPolicy()
+        for (const table of getSchemaModel(context.sourceCode).tables) {
+          const qualifiedName = getQualifiedName(table);
+          if (table.name === null || qualifiedName === null) {
+            continue;
           }
 
-          // Check for policy creation
-          const policyMatch = /CREATE\s+POLICY\s+.*?\s+ON\s+["']?(\w+)["']?/i.exec(
-            sqlContent
-          );
-          if (policyMatch && policyMatch[1]) {
-            tablesWithPolicies.add(policyMatch[1]);
+          const tableName = normalizeTableName(qualifiedName);
+          const reason = getExemptReason(table.node);
+          if (reason === "") {
+            context.report({
+              node: table.node,
+              messageId: "missingExemptReason",
+              data: { table: tableName },
+            });
+          }
+          if (reason !== null) {
+            continue;
+          }
+
+          tablesFound.set(tableName, {
+            name: table.name,
+            columns: getSensitiveColumns(table, sensitiveColumns).map(getColumnName),
+            node: table.node,
+          });
+
+          // Drizzle enables RLS on its own for tables with policies
+          if (table.rlsEnabled || table.policies.length > 0) {
+            getRlsState(tableName).enabled = true;
+          }
+          if (table.policies.length > 0) {
+            tablesWithPolicies.add(tableName);
+          }
+
+          // pgPolicy(...).link(users) in another file importing this table
+          const variableName = table.variableName;
+          if (variableName !== null && sources.some((source) => source.linkedTables.has(variableName))) {
+            getRlsState(tableName).enabled = true;
+            tablesWithPolicies.add(tableName);
           }
         }
       },
 
+      TaggedTemplateExpression: checkRawSql,
+      CallExpression: checkRawSql,
+
       "Program:exit"() {
         // Check each sensitive table
-        tablesFound.forEach((node, tableName) => {
-          if (isSensitiveTable(tableName)) {
-            if (!tablesWithRLS.has(tableName)) {
-              context.report({
-                node,
-                messageId: "missingRLS",
-                data: { table: tableName },
-              });
-            } else if (!tablesWithPolicies.has(tableName)) {
-              // Has RLS but no policies
-              context.report({
-                node,
-                messageId: "missingPolicy",
-                data: { table: tableName },
-              });
-            }
+        tablesFound.forEach(({ name, columns, node }, tableName) => {
+          const sensitiveName = isSensitiveTable(options, name, tableName);
+          if (!sensitiveName && columns.length === 0) {
+            return;
+          }
+
+          const state = getRlsState(tableName);
+          if (state.disabledBy) {
+            context.report({
+              node: state.disabledBy,
+              messageId: "disabledRLS",
+              data: { table: tableName },
+            });
+            return;
+          }
+
+          if (!state.enabled && sensitiveName) {
+            context.report({
+              node,
+              messageId: "missingRLS",
+              data: { table: tableName },
+            });
+          } else if (!state.enabled) {
+            // Only its columns make the table sensitive, so name them
+            context.report({
+              node,
+              messageId: "missingRLSForColumns",
+              data: { table: tableName, columns: columns.join(", ") },
+            });
+          } else if (!tablesWithPolicies.has(tableName)) {
+            // Has RLS but no policies
+            context.report({
+              node,
+              messageId: "missingPolicy",
+              data: { table: tableName },
+            });
+          }
+
+          // Table owners bypass RLS unless it is forced
+          if (state.enabled && !state.forced && state.owner !== null && appRoles.includes(state.owner)) {
+            context.report({
+              node,
+              messageId: "missingForceRLS",
+              data: { table: tableName, role: state.owner },
+            });
           }
         });
       },
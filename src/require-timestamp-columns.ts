@@ -1,12 +1,38 @@
-import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import type { TSESLint } from "@typescript-eslint/utils";
+import { toCamelCase } from "./utils/casing";
+import { getImportReference } from "./utils/imports";
+import type { ImportReference } from "./utils/imports";
+import { getColumnName, getSchemaModel } from "./utils/schema";
+import type { DrizzleColumn, DrizzleTable } from "./utils/schema";
 
-type MessageIds = "missingTimestamps";
+type MessageIds = "missingTimestamps" | "missingOnUpdate" | "addOnUpdate";
+
+export interface TimestampColumn {
+  /** Database column name, e.g. `created_at` */
+  name: string;
+  /** Other accepted keys or column names; defaults to the camelCase form of `name` */
+  aliases?: string[];
+  /** Definition inserted by the fixer, e.g. `timestamp("created_at").defaultNow().notNull()` */
+  definition?: string;
+  /** Require `$onUpdate()` / `$onUpdateFn()` so the column tracks the last change */
+  requireOnUpdate?: boolean;
+}
 
 export interface Options {
   checkTables?: string[];
   ignoreTables?: string[];
+  columns?: TimestampColumn[];
 }
 
+const DEFAULT_COLUMNS: TimestampColumn[] = [
+  { name: "created_at" },
+  { name: "updated_at", requireOnUpdate: true },
+];
+
+const ON_UPDATE_MODIFIERS = ["$onUpdate", "$onUpdateFn", "onUpdateNow"];
+
+const ON_UPDATE_CALL = ".$onUpdate(() => new Date())";
+
 const timestampColumnsRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
   defaultOptions: [{}],
   meta: {
@@ -16,9 +42,13 @@ const timestampColumnsRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
         "Require tables to have created_at and updated_at timestamp columns.",
       url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
     },
+    fixable: "code",
+    hasSuggestions: true,
     messages: {
-      missingTimestamps:
-        "Table '{{tableName}}' should have created_at and updated_at columns",
+      missingTimestamps: "Table '{{tableName}}' is missing {{columns}}",
+      missingOnUpdate:
+        "Column '{{column}}' of table '{{tableName}}' is never updated. Add `.$onUpdate(() => new Date())` so it tracks the last change",
+      addOnUpdate: "Add `.$onUpdate(() => new Date())`.",
     },
     schema: [
       {
@@ -32,6 +62,24 @@ const timestampColumnsRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
             type: "array",
             items: { type: "string" },
           },
+          columns: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                aliases: {
+                  type: "array",
+                  items: { type: "string" },
+                },
+                definition: { type: "string" },
+                requireOnUpdate: { type: "boolean" },
+              },
+              required: ["name"],
+              additionalProperties: false,
+            },
+            minItems: 1,
+          },
         },
         additionalProperties: false,
       },
@@ -41,72 +89,189 @@ const timestampColumnsRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
     const options = context.options[0] || {};
     const checkTables = options.checkTables;
     const ignoreTables = options.ignoreTables || [];
+    const requiredColumns = options.columns || DEFAULT_COLUMNS;
+    const sourceCode = context.sourceCode;
 
-    // Helper to check if this is a table definition call
-    function isTableCall(node: TSESTree.CallExpression): boolean {
-      if (node.callee.type === "Identifier") {
-        return ["pgTable", "mysqlTable", "sqliteTable"].includes(
-          node.callee.name
-        );
+    function findTimestampColumn(
+      table: DrizzleTable,
+      required: TimestampColumn
+    ): { key: string; column: DrizzleColumn | undefined } | null {
+      const names = [required.name, ...(required.aliases ?? [toCamelCase(required.name)])];
+      const column = table.columns.find(
+        (candidate) => names.includes(candidate.key) || names.includes(getColumnName(candidate))
+      );
+      if (column) {
+        return { key: column.key, column };
       }
-      return false;
+
+      // Keys whose value is not a builder call, e.g. spread helpers or shared constants
+      const key = table.columnKeys.find((candidate) => names.includes(candidate));
+      return key !== undefined ? { key, column: undefined } : null;
+    }
+
+    // Column definition written the way the file writes its other columns
+    function getDefinition(
+      table: DrizzleTable,
+      required: TimestampColumn
+    ): { text: string; builder: string; importFix: ImportReference["fix"] } | null {
+      // SQLite has no timestamp builder, so it needs a configured definition
+      const defaultDefinition =
+        table.dialect === "sqlite"
+          ? null
+          : `timestamp("${required.name}").defaultNow().notNull()` +
+            (required.requireOnUpdate ? ON_UPDATE_CALL : "");
+      const definition = required.definition ?? defaultDefinition;
+      const builder = definition && /^([A-Za-z_$][\w$]*)\s*\(/.exec(definition)?.[1];
+      if (!definition || !builder) {
+        return null;
+      }
+
+      const rest = definition.slice(builder.length);
+
+      // pgTable("users", (t) => ({ id: t.uuid() }))
+      const columnsArg = table.node.arguments[1];
+      const param =
+        columnsArg?.type === "ArrowFunctionExpression" || columnsArg?.type === "FunctionExpression"
+          ? columnsArg.params[0]
+          : undefined;
+      if (param?.type === "Identifier") {
+        return { text: `${param.name}.${builder}${rest}`, builder, importFix: null };
+      }
+
+      const reference = getImportReference(
+        sourceCode.ast,
+        builder,
+        `drizzle-orm/${table.dialect}-core`
+      );
+      return { text: `${reference.text}${rest}`, builder, importFix: reference.fix };
+    }
+
+    function fixMissingColumns(
+      table: DrizzleTable,
+      missing: TimestampColumn[]
+    ): TSESLint.ReportFixFunction | null {
+      const columnsNode = table.columnsNode;
+      if (!columnsNode) {
+        return null;
+      }
+
+      const definitions = missing.map((required) => getDefinition(table, required));
+      if (definitions.some((definition) => definition === null)) {
+        return null;
+      }
+
+      const useCamelCase = table.columnKeys.some((key) => /[a-z][A-Z]/.test(key));
+      const lastProperty = columnsNode.properties[columnsNode.properties.length - 1];
+      // An empty object is indented one level from the line it is on
+      const lineIndent = /^\s*/.exec(sourceCode.lines[columnsNode.loc.start.line - 1] ?? "")?.[0] ?? "";
+      const indent = lastProperty ? " ".repeat(lastProperty.loc.start.column) : `${lineIndent}  `;
+      const entries = missing.map((required, index) => {
+        const key = useCamelCase ? toCamelCase(required.name) : required.name;
+        return `${indent}${key}: ${(definitions[index] as { text: string }).text},`;
+      });
+
+      return (fixer) => {
+        const fixes: TSESLint.RuleFix[] = [];
+
+        if (lastProperty) {
+          const after = sourceCode.getTokenAfter(lastProperty);
+          const hasTrailingComma = after?.value === ",";
+          fixes.push(
+            fixer.insertTextAfter(
+              hasTrailingComma ? after : lastProperty,
+              `${hasTrailingComma ? "" : ","}\n${entries.join("\n")}`
+            )
+          );
+        } else {
+          fixes.push(
+            fixer.replaceText(columnsNode, `{\n${entries.join("\n")}\n${lineIndent}}`)
+          );
+        }
+
+        // One import per builder, e.g. both columns use `timestamp`
+        const imported = new Set<string>();
+        for (const definition of definitions) {
+          if (definition?.importFix && !imported.has(definition.builder)) {
+            imported.add(definition.builder);
+            fixes.push(definition.importFix(fixer));
+          }
+        }
+        return fixes;
+      };
     }
 
     return {
-      CallExpression(node) {
-        if (isTableCall(node)) {
-          const tableNameArg = node.arguments[0];
-          if (
-            tableNameArg?.type === "Literal" &&
-            typeof tableNameArg.value === "string"
-          ) {
-            const tableName = tableNameArg.value;
-
-            // Skip if table is in ignore list
-            if (ignoreTables.includes(tableName)) {
-              return;
-            }
+      Program() {
+        for (const table of getSchemaModel(sourceCode).tables) {
+          const tableName = table.name;
+          if (tableName === null || !table.columnsNode) {
+            continue;
+          }
+
+          // Skip if table is in ignore list
+          if (ignoreTables.includes(tableName)) {
+            continue;
+          }
+
+          // Skip if checkTables is defined and table is not in the list
+          if (checkTables && !checkTables.includes(tableName)) {
+            continue;
+          }
 
-            // Skip if checkTables is defined and table is not in the list
-            if (checkTables && !checkTables.includes(tableName)) {
-              return;
+          const missing: TimestampColumn[] = [];
+          for (const required of requiredColumns) {
+            const found = findTimestampColumn(table, required);
+            if (!found) {
+              missing.push(required);
+              continue;
             }
 
-            const columnsArg = node.arguments[1];
-            if (columnsArg?.type === "ObjectExpression") {
-              const columnNames = columnsArg.properties
-                .filter((prop): prop is TSESTree.Property => prop.type === "Property")
-                .map((prop) => {
-                  if (prop.key.type === "Identifier") {
-                    return prop.key.name;
-                  }
-                  if (prop.key.type === "Literal" && typeof prop.key.value === "string") {
-                    return prop.key.value;
-                  }
-                  return null;
-                })
-                .filter((name): name is string => name !== null);
-
-              const hasCreatedAt = columnNames.some(
-                (name) => name === "created_at" || name === "createdAt"
-              );
-              const hasUpdatedAt = columnNames.some(
-                (name) => name === "updated_at" || name === "updatedAt"
-              );
-
-              if (!hasCreatedAt || !hasUpdatedAt) {
-                context.report({
-                  node,
-                  messageId: "missingTimestamps",
-                  data: { tableName },
-                });
-              }
+            const column = found.column;
+            if (
+              required.requireOnUpdate &&
+              column &&
+              !column.modifiers.some((modifier) => ON_UPDATE_MODIFIERS.includes(modifier.name))
+            ) {
+              context.report({
+                node: column.node,
+                messageId: "missingOnUpdate",
+                data: { column: found.key, tableName },
+                suggest: [
+                  {
+                    messageId: "addOnUpdate",
+                    fix: (fixer) => fixer.insertTextAfter(column.node.value, ON_UPDATE_CALL),
+                  },
+                ],
+              });
             }
           }
+
+          // `...timestamps` helpers may provide the columns
+          const hasSpread = table.columnsNode.properties.some(
+            (property) => property.type === "SpreadElement"
+          );
+          if (missing.length > 0 && !hasSpread) {
+            context.report({
+              node: table.node,
+              messageId: "missingTimestamps",
+              data: {
+                tableName,
+                columns: formatList(missing.map((required) => required.name)),
+              },
+              fix: fixMissingColumns(table, missing),
+            });
+          }
         }
       },
     };
   },
 };
 
-export default timestampColumnsRule;
\ No newline at end of file
+// "a", "a and b", "a, b and c"
+function formatList(items: string[]): string {
+  return items.length > 1
+    ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`
+    : items.join("");
+}
+
+export default timestampColumnsRule;
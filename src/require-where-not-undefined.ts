@@ -0,0 +1,133 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import {
+  createDrizzleObjectMatcher,
+  drizzleObjectNameSchema,
+} from "./utils/drizzle-object";
+import type { DrizzleObjectName } from "./utils/drizzle-object";
+import { getDrizzleImports, resolveDrizzleName } from "./utils/imports";
+import { findVariable, getQueryChain } from "./utils/query-chain";
+import { getTypeServices, isPossiblyUndefinedType } from "./utils/types";
+
+type MessageIds = "whereMayBeUndefined";
+
+export interface Options {
+  drizzleObjectName?: DrizzleObjectName;
+}
+
+const requireWhereNotUndefinedRule: TSESLint.RuleModule<MessageIds, [Options?]> = {
+  defaultOptions: [{}],
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow `where` conditions on delete and update queries that may be `undefined`, which Drizzle treats as no filter.",
+      url: "https://github.com/gardner/eslint-plugin-drizzle-postgres",
+    },
+    messages: {
+      whereMayBeUndefined:
+        "This `where` condition may be undefined, and Drizzle runs the `{{method}}` without a filter when it is, affecting every row. Make sure a condition is always present.",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          drizzleObjectName: drizzleObjectNameSchema,
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  create(context) {
+    const options = context.options[0] || {};
+    const sourceCode = context.sourceCode;
+    const isDrizzleObject = createDrizzleObjectMatcher(context, options.drizzleObjectName);
+    const services = getTypeServices(context);
+    const imports = getDrizzleImports(sourceCode.ast);
+
+    function mayBeUndefined(node: TSESTree.Expression, seen: Set<TSESTree.Node>): boolean {
+      if (seen.has(node)) {
+        return false;
+      }
+      seen.add(node);
+
+      switch (node.type) {
+        case "Identifier":
+          if (node.name === "undefined") {
+            return true;
+          }
+          break;
+        case "ConditionalExpression":
+          return mayBeUndefined(node.consequent, seen) || mayBeUndefined(node.alternate, seen);
+        case "LogicalExpression":
+          // `filter && eq(...)` yields `filter` itself when it is falsy
+          return node.operator === "&&" || mayBeUndefined(node.right, seen);
+        case "UnaryExpression":
+          return node.operator === "void";
+        case "TSNonNullExpression":
+          return false;
+        case "TSAsExpression":
+        case "TSSatisfiesExpression":
+          return mayBeUndefined(node.expression, seen);
+        case "CallExpression": {
+          // and() and or() drop undefined operands and return undefined when none is left
+          const helper = resolveDrizzleName(imports, node.callee);
+          if (helper === "and" || helper === "or") {
+            return node.arguments.every(
+              (argument) => argument.type === "SpreadElement" || mayBeUndefined(argument, seen)
+            );
+          }
+          break;
+        }
+      }
+
+      if (services) {
+        return isPossiblyUndefinedType(services, node) ?? false;
+      }
+
+      // Without types, follow constants to their initial value
+      if (node.type === "Identifier") {
+        const definition = findVariable(sourceCode.getScope(node), node.name)?.defs[0];
+        if (
+          definition?.type === "Variable" &&
+          definition.parent.kind === "const" &&
+          definition.node.init
+        ) {
+          return mayBeUndefined(definition.node.init, seen);
+        }
+      }
+      return false;
+    }
+
+    return {
+      CallExpression(node) {
+        if (
+          node.callee.type !== "MemberExpression" ||
+          node.callee.property.type !== "Identifier" ||
+          (node.callee.property.name !== "delete" && node.callee.property.name !== "update") ||
+          !isDrizzleObject(node.callee.object)
+        ) {
+          return;
+        }
+
+        const method = node.callee.property.name;
+        for (const { name, node: member, call } of getQueryChain(sourceCode, node).methods) {
+          if (name !== "where" || !call) {
+            continue;
+          }
+
+          const condition = call.arguments[0];
+          if (!condition) {
+            context.report({ node: member, messageId: "whereMayBeUndefined", data: { method } });
+          } else if (
+            condition.type !== "SpreadElement" &&
+            mayBeUndefined(condition, new Set())
+          ) {
+            context.report({ node: condition, messageId: "whereMayBeUndefined", data: { method } });
+          }
+        }
+      },
+    };
+  },
+};
+
+export default requireWhereNotUndefinedRule;
@@ -0,0 +1,25 @@
+/**
+ * Split an identifier into words the way Drizzle's `casing` option does:
+ * `userID` -> `user`, `ID`; `created_at` -> `created`, `at`.
+ */
+function splitWords(name: string): string[] {
+  return name.match(/[\da-z]+|[A-Z]+(?![a-z])|[A-Z][\da-z]+/g) ?? [];
+}
+
+export function toSnakeCase(name: string): string {
+  return splitWords(name)
+    .map((word) => word.toLowerCase())
+    .join("_");
+}
+
+export function toCamelCase(name: string): string {
+  return splitWords(name)
+    .map((word, index) =>
+      index === 0 ? word.toLowerCase() : word[0]?.toUpperCase() + word.slice(1).toLowerCase()
+    )
+    .join("");
+}
+
+export function isSnakeCase(name: string): boolean {
+  return /^[a-z][a-z0-9_]*$/.test(name);
+}
@@ -0,0 +1,160 @@
+import type { JSONSchema, TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { findVariable } from "./query-chain";
+import { getTypeServices, isDrizzleDatabaseType } from "./types";
+
+/**
+ * One or more Drizzle instance names. Names written as `/pattern/flags` are
+ * treated as regular expressions, e.g. `"/^\\w+Db$/"`.
+ */
+export type DrizzleObjectName = string | string[];
+
+export const drizzleObjectNameSchema: JSONSchema.JSONSchema4 = {
+  anyOf: [
+    { type: "string" },
+    {
+      type: "array",
+      items: { type: "string" },
+      minItems: 1,
+    },
+  ],
+};
+
+const REGEX_NAME = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Create a predicate telling whether an expression is a Drizzle instance.
+ *
+ * With type information the receiver must be typed as a Drizzle database or
+ * transaction. Otherwise, or when the receiver is `any`, it is matched by
+ * name; without a configured name every receiver matches, which keeps the
+ * rules working on projects that never set `drizzleObjectName`. The callback
+ * parameter of `transaction()` on a Drizzle instance is a Drizzle instance too,
+ * whatever it is named.
+ */
+export function createDrizzleObjectMatcher(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  option: DrizzleObjectName | undefined
+): (node: TSESTree.Node) => boolean {
+  const services = getTypeServices(context);
+  const matchesName = createNameMatcher(option);
+
+  function isDrizzleObject(node: TSESTree.Node): boolean {
+    if (services) {
+      const isDrizzleType = isDrizzleDatabaseType(services, node);
+      if (isDrizzleType !== null) {
+        return isDrizzleType;
+      }
+    }
+    return matchesName(node) || isTransactionParameter(node);
+  }
+
+  // db.transaction(async (tx) => ...) and tx.transaction(async (sp) => ...)
+  function isTransactionParameter(node: TSESTree.Node): boolean {
+    const callback = getTransactionCallback(context.sourceCode, node);
+    return (
+      callback !== null &&
+      callback.parent.callee.type === "MemberExpression" &&
+      isDrizzleObject(callback.parent.callee.object)
+    );
+  }
+
+  return isDrizzleObject;
+}
+
+export type TransactionCallback = TSESTree.FunctionLike & {
+  parent: TSESTree.CallExpression;
+};
+
+/**
+ * The `transaction()` callback declaring the given identifier as its first
+ * parameter, e.g. the arrow function for `tx` in `db.transaction(async (tx) => ...)`.
+ */
+export function getTransactionCallback(
+  sourceCode: Readonly<TSESLint.SourceCode>,
+  node: TSESTree.Node
+): TransactionCallback | null {
+  if (node.type !== "Identifier") {
+    return null;
+  }
+
+  const definition = findVariable(sourceCode.getScope(node), node.name)?.defs[0];
+  if (definition?.type !== "Parameter") {
+    return null;
+  }
+
+  const callback = definition.node;
+  return isTransactionCallback(callback) && callback.params[0] === definition.name
+    ? callback
+    : null;
+}
+
+/**
+ * Whether the function is the callback passed to a `.transaction()` call.
+ */
+export function isTransactionCallback(
+  node: TSESTree.Node
+): node is TransactionCallback {
+  const call = node.parent;
+  return (
+    (node.type === "ArrowFunctionExpression" || node.type === "FunctionExpression") &&
+    call?.type === "CallExpression" &&
+    call.arguments[0] === node &&
+    call.callee.type === "MemberExpression" &&
+    !call.callee.computed &&
+    call.callee.property.type === "Identifier" &&
+    call.callee.property.name === "transaction"
+  );
+}
+
+function createNameMatcher(
+  option: DrizzleObjectName | undefined
+): (node: TSESTree.Node) => boolean {
+  if (option === undefined) {
+    return () => true;
+  }
+
+  const matchers = (Array.isArray(option) ? option : [option]).map((name) => {
+    const regex = REGEX_NAME.exec(name);
+    if (regex?.[1]) {
+      const pattern = new RegExp(regex[1], regex[2]);
+      return (candidate: string) => pattern.test(candidate);
+    }
+    return (candidate: string) => candidate === name;
+  });
+
+  return (node) => {
+    const name = getReceiverName(node);
+    return name !== null && matchers.some((matches) => matches(name));
+  };
+}
+
+/**
+ * Name of the object a query is called on: `db` for both `db` and `this.db`.
+ */
+export function getReceiverName(node: TSESTree.Node): string | null {
+  if (node.type === "Identifier") {
+    return node.name;
+  }
+  if (
+    node.type === "MemberExpression" &&
+    !node.computed &&
+    node.property.type === "Identifier"
+  ) {
+    return node.property.name;
+  }
+  return null;
+}
+
+/**
+ * Object a method chain starts from: `db` in `db.select().from(users).leftJoin(...)`.
+ */
+export function getChainReceiver(node: TSESTree.CallExpression): TSESTree.Node | null {
+  let current: TSESTree.Node = node;
+  while (current.type === "CallExpression") {
+    if (current.callee.type !== "MemberExpression") {
+      return null;
+    }
+    current = current.callee.object;
+  }
+  return current;
+}
@@ -0,0 +1,112 @@
+// The part of Node's fs module used here; the package does not depend on @types/node
+export interface FileSystem {
+  readFileSync(path: string, encoding: "utf8"): string;
+  readdirSync(
+    path: string,
+    options: { withFileTypes: true }
+  ): Array<{ name: string; isDirectory(): boolean; isFile(): boolean }>;
+  statSync(path: string): { mtimeMs: number };
+}
+
+const SKIPPED_DIRECTORIES = new Set(["node_modules", ".git"]);
+
+export function toPosixPath(path: string): string {
+  return path.replace(/\\/g, "/");
+}
+
+/**
+ * Files matching any of the globs, sorted. Globs support `*`, `**`, `?`,
+ * `{a,b}` and `\` escapes; globs starting with `!` exclude files. Relative
+ * globs are resolved against `cwd`, and `node_modules` and `.git` are skipped.
+ */
+export function findFiles(fs: FileSystem, cwd: string, patterns: string[]): string[] {
+  const files = new Set<string>();
+  const excluded: RegExp[] = [];
+
+  for (const pattern of patterns) {
+    if (pattern.startsWith("!")) {
+      excluded.push(globToRegExp(toAbsoluteGlob(cwd, pattern.slice(1))));
+      continue;
+    }
+
+    const glob = toAbsoluteGlob(cwd, pattern);
+    const segments = glob.split("/");
+    const firstGlob = segments.findIndex((segment) => /[*?{\\]/.test(segment));
+    // A plain path names a single file
+    if (firstGlob === -1) {
+      files.add(glob);
+      continue;
+    }
+
+    const matcher = globToRegExp(glob);
+    visit(fs, segments.slice(0, firstGlob).join("/") || "/", (path) => {
+      if (matcher.test(path)) {
+        files.add(path);
+      }
+    });
+  }
+
+  return [...files].filter((path) => !excluded.some((matcher) => matcher.test(path))).sort();
+}
+
+/**
+ * Regular expression for a glob over `/`-separated paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index] as string;
+    if (char === "\\" && index + 1 < glob.length) {
+      index++;
+      source += escapeRegExp(glob[index] as string);
+    } else if (char === "*" && glob[index + 1] === "*") {
+      // `**/` matches any number of directories, including none
+      const slash = glob[index + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      index += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      source += "(?:";
+      braces++;
+    } else if (char === "}" && braces > 0) {
+      source += ")";
+      braces--;
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function toAbsoluteGlob(cwd: string, pattern: string): string {
+  // Backslashes are escapes, so only plain Windows paths are converted
+  const normalized = (/[*?{]/.test(pattern) ? pattern : toPosixPath(pattern)).replace(/^\.\//, "");
+  return /^([A-Za-z]:)?\//.test(normalized) ? normalized : `${cwd}/${normalized}`;
+}
+
+function visit(fs: FileSystem, directory: string, onFile: (path: string) => void): void {
+  let entries: ReturnType<FileSystem["readdirSync"]>;
+  try {
+    entries = fs.readdirSync(directory, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const path = `${directory === "/" ? "" : directory}/${entry.name}`;
+    if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) {
+      visit(fs, path, onFile);
+    } else if (entry.isFile()) {
+      onFile(path);
+    }
+  }
+}
+
+function escapeRegExp(char: string): string {
+  return char.replace(/[.+^$()|[\]\\*?{}]/g, "\\$&");
+}
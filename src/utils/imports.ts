@@ -0,0 +1,145 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+
+export interface DrizzleImports {
+  /** Local name to exported name for named imports from `drizzle-orm` modules */
+  named: Map<string, string>;
+  /** Local names of `import * as x from "drizzle-orm/..."` */
+  namespaces: Set<string>;
+  /** Local names imported from any other module */
+  foreign: Set<string>;
+}
+
+const DRIZZLE_SOURCE = /^drizzle-orm(\/|$)/;
+
+const cache = new WeakMap<TSESTree.Program, DrizzleImports>();
+
+/**
+ * Collect the import bindings of a file that may refer to Drizzle helpers.
+ */
+export function getDrizzleImports(program: TSESTree.Program): DrizzleImports {
+  const cached = cache.get(program);
+  if (cached) {
+    return cached;
+  }
+
+  const imports: DrizzleImports = {
+    named: new Map(),
+    namespaces: new Set(),
+    foreign: new Set(),
+  };
+
+  for (const statement of program.body) {
+    if (statement.type !== "ImportDeclaration") {
+      continue;
+    }
+
+    const isDrizzle = DRIZZLE_SOURCE.test(statement.source.value);
+    for (const specifier of statement.specifiers) {
+      if (!isDrizzle) {
+        imports.foreign.add(specifier.local.name);
+      } else if (specifier.type === "ImportNamespaceSpecifier") {
+        imports.namespaces.add(specifier.local.name);
+      } else if (specifier.type === "ImportSpecifier") {
+        const imported =
+          specifier.imported.type === "Identifier"
+            ? specifier.imported.name
+            : specifier.imported.value;
+        imports.named.set(specifier.local.name, imported);
+      }
+    }
+  }
+
+  cache.set(program, imports);
+  return imports;
+}
+
+/**
+ * Resolve a callee such as `table`, `pgTable` or `pg.pgTable` to the Drizzle
+ * export it refers to. Identifiers that are not imported at all resolve to
+ * themselves so that snippets without imports keep working.
+ */
+export function resolveDrizzleName(
+  imports: DrizzleImports,
+  node: TSESTree.Node
+): string | null {
+  if (node.type === "Identifier") {
+    if (imports.foreign.has(node.name)) {
+      return null;
+    }
+    return imports.named.get(node.name) ?? node.name;
+  }
+
+  if (
+    node.type === "MemberExpression" &&
+    !node.computed &&
+    node.object.type === "Identifier" &&
+    imports.namespaces.has(node.object.name) &&
+    node.property.type === "Identifier"
+  ) {
+    return node.property.name;
+  }
+
+  return null;
+}
+
+export interface ImportReference {
+  /** Expression referring to the export, e.g. `timestamp`, `ts` or `pg.timestamp` */
+  text: string;
+  /** Fix adding the missing import, or null when none is needed or possible */
+  fix: ((fixer: TSESLint.RuleFixer) => TSESLint.RuleFix) | null;
+}
+
+/**
+ * Refer to a named export of `source` following the file's import style:
+ * reuse a named or namespace import, otherwise add the name to an existing
+ * import of the module or add a new import after the last one. Snippets
+ * without any import are left alone.
+ */
+export function getImportReference(
+  program: TSESTree.Program,
+  name: string,
+  source: string
+): ImportReference {
+  const declarations = program.body.filter(
+    (statement): statement is TSESTree.ImportDeclaration =>
+      statement.type === "ImportDeclaration"
+  );
+  const fromSource = declarations.filter(
+    (declaration) => declaration.source.value === source && declaration.importKind !== "type"
+  );
+
+  for (const declaration of fromSource) {
+    for (const specifier of declaration.specifiers) {
+      if (specifier.type === "ImportNamespaceSpecifier") {
+        return { text: `${specifier.local.name}.${name}`, fix: null };
+      }
+      if (
+        specifier.type === "ImportSpecifier" &&
+        specifier.importKind !== "type" &&
+        (specifier.imported.type === "Identifier"
+          ? specifier.imported.name
+          : specifier.imported.value) === name
+      ) {
+        return { text: specifier.local.name, fix: null };
+      }
+    }
+  }
+
+  const named = fromSource.find((declaration) =>
+    declaration.specifiers.some((specifier) => specifier.type === "ImportSpecifier")
+  );
+  const lastSpecifier = named?.specifiers[named.specifiers.length - 1];
+  if (lastSpecifier) {
+    return { text: name, fix: (fixer) => fixer.insertTextAfter(lastSpecifier, `, ${name}`) };
+  }
+
+  const lastImport = declarations[declarations.length - 1];
+  if (lastImport) {
+    return {
+      text: name,
+      fix: (fixer) => fixer.insertTextAfter(lastImport, `\nimport { ${name} } from "${source}";`),
+    };
+  }
+
+  return { text: name, fix: null };
+}
@@ -0,0 +1,170 @@
+/**
+ * Keywords PostgreSQL reserves, which can't be used as unquoted table or
+ * column names. Includes the keywords that are reserved but can be function
+ * or type names, e.g. `left` or `join`.
+ *
+ * https://www.postgresql.org/docs/current/sql-keywords-appendix.html
+ */
+export const RESERVED_KEYWORDS = new Set([
+  "all",
+  "analyse",
+  "analyze",
+  "and",
+  "any",
+  "array",
+  "as",
+  "asc",
+  "asymmetric",
+  "authorization",
+  "binary",
+  "both",
+  "case",
+  "cast",
+  "check",
+  "collate",
+  "collation",
+  "column",
+  "concurrently",
+  "constraint",
+  "create",
+  "cross",
+  "current_catalog",
+  "current_date",
+  "current_role",
+  "current_schema",
+  "current_time",
+  "current_timestamp",
+  "current_user",
+  "default",
+  "deferrable",
+  "desc",
+  "distinct",
+  "do",
+  "else",
+  "end",
+  "except",
+  "false",
+  "fetch",
+  "for",
+  "foreign",
+  "freeze",
+  "from",
+  "full",
+  "grant",
+  "group",
+  "having",
+  "ilike",
+  "in",
+  "initially",
+  "inner",
+  "intersect",
+  "into",
+  "is",
+  "isnull",
+  "join",
+  "lateral",
+  "leading",
+  "left",
+  "like",
+  "limit",
+  "localtime",
+  "localtimestamp",
+  "natural",
+  "not",
+  "notnull",
+  "null",
+  "offset",
+  "on",
+  "only",
+  "or",
+  "order",
+  "outer",
+  "overlaps",
+  "placing",
+  "primary",
+  "references",
+  "returning",
+  "right",
+  "select",
+  "session_user",
+  "similar",
+  "some",
+  "symmetric",
+  "system_user",
+  "table",
+  "tablesample",
+  "then",
+  "to",
+  "trailing",
+  "true",
+  "union",
+  "unique",
+  "user",
+  "using",
+  "variadic",
+  "verbose",
+  "when",
+  "where",
+  "window",
+  "with",
+]);
+
+/**
+ * Keywords PostgreSQL accepts as column names but not as function or type
+ * names, e.g. `position` or `values`, and words the SQL standard reserves,
+ * e.g. `date` or `value`. Other databases and SQL tools often need them quoted.
+ */
+export const NON_RESERVED_KEYWORDS = new Set([
+  "between",
+  "bigint",
+  "bit",
+  "boolean",
+  "char",
+  "character",
+  "coalesce",
+  "date",
+  "day",
+  "dec",
+  "decimal",
+  "exists",
+  "extract",
+  "float",
+  "greatest",
+  "grouping",
+  "hour",
+  "inout",
+  "int",
+  "integer",
+  "interval",
+  "json",
+  "least",
+  "minute",
+  "month",
+  "national",
+  "nchar",
+  "none",
+  "normalize",
+  "nullif",
+  "numeric",
+  "out",
+  "overlay",
+  "position",
+  "precision",
+  "range",
+  "real",
+  "row",
+  "rows",
+  "second",
+  "setof",
+  "smallint",
+  "substring",
+  "system",
+  "time",
+  "timestamp",
+  "treat",
+  "trim",
+  "value",
+  "values",
+  "varchar",
+  "year",
+]);
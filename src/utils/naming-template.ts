@@ -0,0 +1,98 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import type { DrizzleColumn } from "./schema";
+
+/**
+ * Values for the placeholders of a naming template such as
+ * `{table}_{columns}_idx`. A `null` value is unknown, e.g. the columns of an
+ * index on SQL expressions, and matches any text.
+ */
+export type TemplateValues = Record<string, string | null>;
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * Fill in a template, or return null when a placeholder has no known value.
+ */
+export function formatTemplate(template: string, values: TemplateValues): string | null {
+  let complete = true;
+  const name = template.replace(PLACEHOLDER, (placeholder, key: string) => {
+    const value = values[key];
+    if (value === null || value === undefined) {
+      complete = false;
+      return placeholder;
+    }
+    return value;
+  });
+  return complete ? name : null;
+}
+
+/**
+ * Whether a name has the shape of the template, with unknown values and,
+ * when listed in `wildcards`, known ones matching any text.
+ */
+export function matchesTemplate(
+  name: string,
+  template: string,
+  values: TemplateValues,
+  wildcards: string[] = []
+): boolean {
+  // "{table}_{columns}_idx" -> ["", "{table}", "_", "{columns}", "_idx"]
+  const pattern = template
+    .split(/(\{\w+\})/)
+    .map((part, index) => {
+      if (index % 2 === 0) {
+        return escapeRegExp(part);
+      }
+      const key = part.slice(1, -1);
+      const value = values[key];
+      return value === null || value === undefined || wildcards.includes(key)
+        ? ".+"
+        : escapeRegExp(value);
+    })
+    .join("");
+  return new RegExp(`^${pattern}$`).test(name);
+}
+
+/**
+ * Fix replacing a string literal, keeping its quotes. Names built any other
+ * way, e.g. in a template literal, are left to the author.
+ */
+export function renameStringLiteral(
+  sourceCode: Readonly<TSESLint.SourceCode>,
+  node: TSESTree.Node,
+  name: string
+): TSESLint.ReportFixFunction | null {
+  if (node.type !== "Literal" || typeof node.value !== "string") {
+    return null;
+  }
+  const quote = sourceCode.getText(node)[0];
+  return (fixer) => fixer.replaceText(node, `${quote}${name}${quote}`);
+}
+
+/**
+ * Fix setting a column's database name: `userId: uuid("userID")` and
+ * `userId: uuid()` both become `userId: uuid("user_id")`.
+ */
+export function renameColumn(
+  sourceCode: Readonly<TSESLint.SourceCode>,
+  column: DrizzleColumn,
+  name: string
+): TSESLint.ReportFixFunction | null {
+  if (column.nameNode) {
+    return renameStringLiteral(sourceCode, column.nameNode, name);
+  }
+
+  // uuid(USER_ID) names the column through a value we cannot read
+  const config = column.builderNode.arguments[0];
+  if (config) {
+    return config.type === "ObjectExpression"
+      ? (fixer) => fixer.insertTextBefore(config, `"${name}", `)
+      : null;
+  }
+  const closingParen = sourceCode.getLastToken(column.builderNode);
+  return closingParen ? (fixer) => fixer.insertTextBefore(closingParen, `"${name}"`) : null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,163 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+
+export interface ChainMethod {
+  name: string;
+  node: TSESTree.MemberExpression;
+  /** The call of the method, or null for a bare property access such as `.set` */
+  call: TSESTree.CallExpression | null;
+}
+
+export interface QueryChain {
+  /** The call starting the chain, e.g. `db.delete(users)` */
+  root: TSESTree.CallExpression;
+  /** Methods chained onto the root, including continuations through variables */
+  methods: ChainMethod[];
+  /** Outermost expression of the chain written directly on the root */
+  end: TSESTree.Expression;
+  /** Whether the builder is passed to or returned from a function, to be completed elsewhere */
+  escapes: boolean;
+}
+
+/**
+ * Follow a query builder from its root call through every chained method,
+ * including builders stored in a variable and completed later:
+ *
+ *   const q = db.delete(users).$dynamic();
+ *   await q.where(eq(users.id, id));
+ */
+export function getQueryChain(
+  sourceCode: Readonly<TSESLint.SourceCode>,
+  root: TSESTree.CallExpression
+): QueryChain {
+  const chain: QueryChain = {
+    root,
+    methods: [],
+    end: root,
+    escapes: false,
+  };
+  const visited = new Set<TSESTree.Node>();
+
+  function follow(start: TSESTree.Expression, isRoot: boolean): void {
+    if (visited.has(start)) {
+      return;
+    }
+    visited.add(start);
+
+    const end = collectMethods(start, chain.methods);
+    if (isRoot) {
+      chain.end = end;
+    }
+
+    if (isEscaping(end)) {
+      chain.escapes = true;
+    }
+
+    for (const variable of getAssignedVariables(sourceCode, end)) {
+      for (const reference of variable.references) {
+        if (
+          reference.isRead() &&
+          reference.identifier.type === "Identifier" &&
+          !visited.has(reference.identifier)
+        ) {
+          follow(reference.identifier, false);
+        }
+      }
+    }
+  }
+
+  follow(root, true);
+  return chain;
+}
+
+/**
+ * Whether any method of the chain has one of the given names.
+ */
+export function hasChainMethod(chain: QueryChain, ...names: string[]): boolean {
+  return chain.methods.some((method) => names.includes(method.name));
+}
+
+/**
+ * Walk outwards from `start` while it is the object of a method call.
+ */
+function collectMethods(
+  start: TSESTree.Expression,
+  methods: ChainMethod[]
+): TSESTree.Expression {
+  let current: TSESTree.Expression = start;
+
+  while (
+    current.parent?.type === "MemberExpression" &&
+    current.parent.object === current &&
+    !current.parent.computed &&
+    current.parent.property.type === "Identifier"
+  ) {
+    const member = current.parent;
+    const call =
+      member.parent?.type === "CallExpression" && member.parent.callee === member
+        ? member.parent
+        : null;
+
+    methods.push({ name: member.property.name, node: member, call });
+
+    if (!call) {
+      return member;
+    }
+    current = call;
+  }
+
+  return current;
+}
+
+function isEscaping(node: TSESTree.Expression): boolean {
+  const parent = node.parent;
+  switch (parent?.type) {
+    case "CallExpression":
+      return parent.arguments.includes(node as TSESTree.CallExpressionArgument);
+    case "ReturnStatement":
+      return true;
+    case "ArrowFunctionExpression":
+      return parent.body === node;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Variables the expression is stored into: `const q = <expr>` or `q = <expr>`.
+ */
+function getAssignedVariables(
+  sourceCode: Readonly<TSESLint.SourceCode>,
+  node: TSESTree.Expression
+): readonly TSESLint.Scope.Variable[] {
+  const parent = node.parent;
+
+  if (parent?.type === "VariableDeclarator" && parent.init === node) {
+    return sourceCode.getDeclaredVariables(parent);
+  }
+
+  if (
+    parent?.type === "AssignmentExpression" &&
+    parent.right === node &&
+    parent.left.type === "Identifier"
+  ) {
+    const variable = findVariable(sourceCode.getScope(parent), parent.left.name);
+    return variable ? [variable] : [];
+  }
+
+  return [];
+}
+
+export function findVariable(
+  initialScope: TSESLint.Scope.Scope,
+  name: string
+): TSESLint.Scope.Variable | null {
+  let scope: TSESLint.Scope.Scope | null = initialScope;
+  while (scope) {
+    const variable = scope.set.get(name);
+    if (variable) {
+      return variable;
+    }
+    scope = scope.upper;
+  }
+  return null;
+}
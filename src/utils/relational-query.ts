@@ -0,0 +1,123 @@
+import type { TSESTree } from "@typescript-eslint/utils";
+import { findProperty, getPropertyKey } from "./schema";
+
+export interface RelationalQuery {
+  /** The `findMany()` / `findFirst()` call */
+  call: TSESTree.CallExpression;
+  /** Object the query is made on, e.g. `db` in `db.query.users.findMany()` */
+  receiver: TSESTree.Expression;
+  table: string;
+  method: "findMany" | "findFirst";
+  /** Inline config object, or null when there is none or it is not a literal */
+  config: TSESTree.ObjectExpression | null;
+  /** Whether the config cannot be seen, e.g. `findMany(options)` */
+  hasOpaqueConfig: boolean;
+}
+
+export interface Relation {
+  name: string;
+  /** Dotted path from the query, e.g. `posts.comments` */
+  path: string;
+  node: TSESTree.Property;
+  /** `{ columns, with, ... }` for a configured relation, null for `posts: true` */
+  config: TSESTree.ObjectExpression | null;
+  /** 1 for relations loaded by the query itself */
+  depth: number;
+  children: Relation[];
+}
+
+/**
+ * Match a relational query: `db.query.users.findMany({ ... })`.
+ */
+export function getRelationalQuery(node: TSESTree.CallExpression): RelationalQuery | null {
+  const callee = node.callee;
+  if (
+    callee.type !== "MemberExpression" ||
+    callee.computed ||
+    callee.property.type !== "Identifier" ||
+    (callee.property.name !== "findMany" && callee.property.name !== "findFirst")
+  ) {
+    return null;
+  }
+
+  const tableAccess = callee.object;
+  if (tableAccess.type !== "MemberExpression") {
+    return null;
+  }
+  const table = getMemberName(tableAccess);
+
+  const queryAccess = tableAccess.object;
+  if (
+    table === null ||
+    queryAccess.type !== "MemberExpression" ||
+    getMemberName(queryAccess) !== "query"
+  ) {
+    return null;
+  }
+
+  const argument = node.arguments[0];
+  return {
+    call: node,
+    receiver: queryAccess.object,
+    table,
+    method: callee.property.name,
+    config: argument?.type === "ObjectExpression" ? argument : null,
+    hasOpaqueConfig: argument !== undefined && argument.type !== "ObjectExpression",
+  };
+}
+
+/**
+ * Relations loaded through the `with` option, nested relations included.
+ */
+export function getRelations(
+  config: TSESTree.ObjectExpression | null,
+  parent: Relation | null = null
+): Relation[] {
+  const withOption = config && findProperty(config, "with");
+  if (withOption?.value.type !== "ObjectExpression") {
+    return [];
+  }
+
+  const relations: Relation[] = [];
+  for (const property of withOption.value.properties) {
+    const name = property.type === "Property" ? getPropertyKey(property) : null;
+    // `posts: false` and `posts: undefined` do not load anything
+    if (
+      property.type !== "Property" ||
+      name === null ||
+      (property.value.type === "Literal" && property.value.value === false) ||
+      (property.value.type === "Identifier" && property.value.name === "undefined")
+    ) {
+      continue;
+    }
+
+    const relation: Relation = {
+      name,
+      path: parent ? `${parent.path}.${name}` : name,
+      node: property,
+      config: property.value.type === "ObjectExpression" ? property.value : null,
+      depth: parent ? parent.depth + 1 : 1,
+      children: [],
+    };
+    relation.children = getRelations(relation.config, relation);
+    relations.push(relation);
+  }
+  return relations;
+}
+
+/**
+ * Relations in the order they appear in the source, parents before children.
+ */
+export function flattenRelations(relations: Relation[]): Relation[] {
+  return relations.flatMap((relation) => [relation, ...flattenRelations(relation.children)]);
+}
+
+function getMemberName(node: TSESTree.MemberExpression): string | null {
+  if (!node.computed && node.property.type === "Identifier") {
+    return node.property.name;
+  }
+  if (node.property.type === "Literal" && typeof node.property.value === "string") {
+    return node.property.value;
+  }
+  return null;
+}
@@ -0,0 +1,207 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { getDrizzleImports } from "./imports";
+import { findFiles, toPosixPath } from "./glob";
+import type { FileSystem } from "./glob";
+import type { AlterTableRls } from "./rls";
+import type { ParameterTableResolver } from "./rls";
+import { getParameterTableResolver, getPolicyTable, normalizeTableName, parseAlterTable } from "./rls";
+import { getQualifiedName, getSchemaModel, walk } from "./schema";
+import { getSqlTemplate, parseSql } from "./sql";
+
+export interface RlsSourceFile {
+  /** Absolute path, with `/` as separator */
+  path: string;
+  /** ALTER TABLE statements and tables declared with RLS, in source order */
+  changes: AlterTableRls[];
+  /** Tables with policies, by normalised table name */
+  policyTables: Set<string>;
+  /** Tables declared in other files with policies attached through `.link()`, by exported name */
+  linkedTables: Set<string>;
+}
+
+declare const require: (id: string) => unknown;
+
+// Matching files by working directory and patterns, found once per lint run
+const fileLists = new Map<string, string[]>();
+
+// Indexed files by path, reused until they are modified, so long-running
+// processes such as editor integrations see edits to migrations
+const cache = new Map<string, { mtimeMs: number; source: RlsSourceFile }>();
+
+/**
+ * Index the RLS statements and policies of the files matching `patterns`:
+ * `.sql` files, and TypeScript or JavaScript files parsed with the parser of
+ * the file being linted. Relative patterns are resolved against the working
+ * directory.
+ */
+export function getRlsSources(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  patterns: string[]
+): RlsSourceFile[] {
+  if (patterns.length === 0) {
+    return [];
+  }
+
+  // Rules run synchronously, so fs can't be loaded with import()
+  const fs = require("fs") as FileSystem;
+  const cwd = toPosixPath(context.cwd);
+  const key = [cwd, ...patterns].join("\0");
+  let paths = fileLists.get(key);
+  if (!paths) {
+    paths = findFiles(fs, cwd, patterns);
+    fileLists.set(key, paths);
+  }
+
+  const sources: RlsSourceFile[] = [];
+  for (const path of paths) {
+    let mtimeMs: number;
+    let text: string;
+    try {
+      mtimeMs = fs.statSync(path).mtimeMs;
+      const cached = cache.get(path);
+      if (cached?.mtimeMs === mtimeMs) {
+        sources.push(cached.source);
+        continue;
+      }
+      text = fs.readFileSync(path, "utf8");
+    } catch {
+      continue;
+    }
+
+    const source: RlsSourceFile = {
+      path,
+      changes: [],
+      policyTables: new Set(),
+      linkedTables: new Set(),
+    };
+    if (path.endsWith(".sql")) {
+      indexSql(source, text);
+    } else {
+      indexProgram(context, source, text);
+    }
+    cache.set(path, { mtimeMs, source });
+    sources.push(source);
+  }
+
+  return sources;
+}
+
+function indexSql(source: RlsSourceFile, text: string, resolveTable?: ParameterTableResolver): void {
+  for (const { tokens } of parseSql(text)) {
+    const change = parseAlterTable(tokens, resolveTable);
+    if (change) {
+      source.changes.push(change);
+    }
+    const policyTable = getPolicyTable(tokens, resolveTable);
+    if (policyTable !== null) {
+      source.policyTables.add(policyTable);
+    }
+  }
+}
+
+function indexProgram(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  source: RlsSourceFile,
+  text: string
+): void {
+  const parsed = parseProgram(context, text, source.path);
+  if (!parsed) {
+    return;
+  }
+
+  const model = getSchemaModel(parsed);
+  for (const table of model.tables) {
+    const qualifiedName = getQualifiedName(table);
+    if (qualifiedName === null) {
+      continue;
+    }
+    // Drizzle enables RLS on its own for tables with policies
+    const tableName = normalizeTableName(qualifiedName);
+    if (table.rlsEnabled || table.policies.length > 0) {
+      source.changes.push({ table: tableName, enabled: true, forced: null, owner: null });
+    }
+    if (table.policies.length > 0) {
+      source.policyTables.add(tableName);
+    }
+  }
+
+  // pgPolicy(...).link(users) with `users` imported from the schema
+  const imported = new Map<string, string>();
+  for (const statement of parsed.ast.body) {
+    if (statement.type !== "ImportDeclaration") {
+      continue;
+    }
+    for (const specifier of statement.specifiers) {
+      if (specifier.type === "ImportSpecifier") {
+        imported.set(
+          specifier.local.name,
+          specifier.imported.type === "Identifier" ? specifier.imported.name : specifier.imported.value
+        );
+      }
+    }
+  }
+  for (const { target } of model.externalPolicies) {
+    source.linkedTables.add(imported.get(target) ?? target);
+  }
+
+  const imports = getDrizzleImports(parsed.ast);
+  walk(parsed.ast, parsed.visitorKeys, (node) => {
+    const template = getSqlTemplate(imports, node);
+    if (template) {
+      indexSql(source, template.text, getParameterTableResolver(model, template));
+    }
+  });
+}
+
+function parseProgram(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  text: string,
+  filePath: string
+): { ast: TSESTree.Program; visitorKeys: TSESLint.SourceCode.VisitorKeys } | null {
+  const parser = context.languageOptions.parser;
+  const options: Record<string, unknown> = {
+    ecmaVersion: "latest",
+    sourceType: "module",
+    ...context.languageOptions.parserOptions,
+    filePath,
+    range: true,
+    loc: true,
+  };
+  // Type information is not needed, and the file may not be part of the project
+  delete options.project;
+  delete options.projectService;
+  delete options.programs;
+
+  let ast: TSESTree.Program;
+  let visitorKeys = context.sourceCode.visitorKeys;
+  try {
+    if (parser && "parseForESLint" in parser) {
+      const result = parser.parseForESLint(text, options);
+      ast = result.ast as TSESTree.Program;
+      visitorKeys = (result.visitorKeys as TSESLint.SourceCode.VisitorKeys | undefined) ?? visitorKeys;
+    } else if (parser && "parse" in parser) {
+      ast = parser.parse(text, options) as TSESTree.Program;
+    } else {
+      return null;
+    }
+  } catch {
+    // A source that does not parse has nothing to contribute
+    return null;
+  }
+
+  setParents(ast, visitorKeys);
+  return { ast, visitorKeys };
+}
+
+// Parsers leave `parent` to ESLint, which only sets it on the file being linted
+function setParents(node: TSESTree.Node, visitorKeys: TSESLint.SourceCode.VisitorKeys): void {
+  for (const key of visitorKeys[node.type] ?? []) {
+    const child = (node as unknown as Record<string, unknown>)[key];
+    for (const item of Array.isArray(child) ? child : [child]) {
+      if (item && typeof (item as TSESTree.Node).type === "string") {
+        (item as { parent: TSESTree.Node }).parent = node;
+        setParents(item as TSESTree.Node, visitorKeys);
+      }
+    }
+  }
+}
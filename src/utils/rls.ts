@@ -0,0 +1,493 @@
+import type { JSONSchema, TSESTree } from "@typescript-eslint/utils";
+import type { DrizzleImports } from "./imports";
+import { toSnakeCase } from "./casing";
+import { resolveDrizzleName } from "./imports";
+import type { DrizzleColumn, DrizzlePolicy, DrizzleTable, SchemaModel } from "./schema";
+import { findProperty, findTableByVariable, getColumnName, getQualifiedName, getStaticString } from "./schema";
+import type { SqlTemplate, SqlToken } from "./sql";
+import { getIdentifierName, getSqlTemplate, isKeyword, matchKeywords, readQualifiedName, tokenizeSql } from "./sql";
+
+export type PolicyCommand = "select" | "insert" | "update" | "delete";
+
+export const POLICY_COMMANDS: PolicyCommand[] = ["select", "insert", "update", "delete"];
+
+export interface SensitivityOptions {
+  sensitiveTables?: string[];
+  sensitivePatterns?: string[];
+}
+
+export const DEFAULT_SENSITIVE_PATTERNS = [
+  "user",
+  "account",
+  "profile",
+  "payment",
+  "order",
+  "invoice",
+  "medical",
+  "health",
+  "personal",
+  "private",
+  "auth",
+  "session",
+  "token",
+];
+
+/** Column name, matched word by word, and/or column builder, e.g. `{ name: "metadata", type: "jsonb" }` */
+export interface SensitiveColumnPattern {
+  name?: string;
+  type?: string;
+}
+
+export const DEFAULT_SENSITIVE_COLUMNS: Array<string | SensitiveColumnPattern> = [
+  "email",
+  "phone",
+  "password",
+  "ssn",
+  "dob",
+  "date_of_birth",
+  "ip_address",
+  { type: "inet" },
+  { name: "metadata", type: "jsonb" },
+];
+
+/** The `sensitiveColumns` option of the RLS rules */
+export const sensitiveColumnsSchema: JSONSchema.JSONSchema4 = {
+  type: "array",
+  items: {
+    anyOf: [
+      { type: "string" },
+      {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          type: { type: "string" },
+        },
+        additionalProperties: false,
+        minProperties: 1,
+      },
+    ],
+  },
+};
+
+export interface AlterTableRls {
+  /** Normalised table name, see `normalizeTableName` */
+  table: string;
+  /** true for ENABLE ROW LEVEL SECURITY, false for DISABLE, null when not changed */
+  enabled: boolean | null;
+  /** true for FORCE ROW LEVEL SECURITY, false for NO FORCE, null when not changed */
+  forced: boolean | null;
+  /** Role of OWNER TO, null when not changed */
+  owner: string | null;
+}
+
+export interface PolicyPredicate {
+  /** `true`, `1 = 1` and the like, which let every row through */
+  alwaysTrue: boolean;
+  node: TSESTree.Node;
+}
+
+export interface RlsPolicy {
+  /** Policy name, or null when it is not a static string or generated by `crudPolicy` */
+  name: string | null;
+  /** Normalised table name, see `normalizeTableName` */
+  table: string;
+  /** Commands the policy applies to; `ALL` lists every command */
+  commands: PolicyCommand[];
+  restrictive: boolean;
+  /** Role names, `public` included; a policy without roles applies to `public` */
+  roles: string[];
+  using: PolicyPredicate | null;
+  withCheck: PolicyPredicate | null;
+  node: TSESTree.Node;
+}
+
+// Role objects exported by drizzle-orm/supabase and drizzle-orm/neon
+const PREDEFINED_ROLES: Record<string, string> = {
+  anonRole: "anon",
+  authenticatedRole: "authenticated",
+  serviceRole: "service_role",
+  postgresRole: "postgres",
+  supabaseAuthAdminRole: "supabase_auth_admin",
+  anonymousRole: "anonymous",
+};
+
+/**
+ * Whether the table is listed in `sensitiveTables` or its name contains one of
+ * the `sensitivePatterns`.
+ */
+export function isSensitiveTable(
+  options: SensitivityOptions,
+  tableName: string,
+  qualifiedName: string
+): boolean {
+  const sensitiveTables = options.sensitiveTables || [];
+  const sensitivePatterns = options.sensitivePatterns || DEFAULT_SENSITIVE_PATTERNS;
+
+  if (sensitiveTables.includes(tableName) || sensitiveTables.includes(qualifiedName)) {
+    return true;
+  }
+
+  const lowerName = tableName.toLowerCase();
+  return sensitivePatterns.some((pattern) => lowerName.includes(pattern.toLowerCase()));
+}
+
+/**
+ * Columns of the table matching one of the patterns. Database names match whole words,
+ * so `email` matches `email` and `backup_email` but `dob` does not match `adobe_id`.
+ */
+export function getSensitiveColumns(
+  table: DrizzleTable,
+  patterns: Array<string | SensitiveColumnPattern>
+): DrizzleColumn[] {
+  return table.columns.filter((column) =>
+    patterns.some((pattern) => {
+      const { name, type } = typeof pattern === "string" ? { name: pattern, type: undefined } : pattern;
+      return (
+        (name === undefined || containsWords(getColumnName(column), name)) &&
+        (type === undefined || column.builder === type)
+      );
+    })
+  );
+}
+
+// Whether the words of `pattern` appear in a row in `name`, ignoring its casing
+function containsWords(name: string, pattern: string): boolean {
+  const words = toSnakeCase(name).split("_");
+  const patternWords = toSnakeCase(pattern).split("_");
+  return words.some((_, start) =>
+    patternWords.every((word, offset) => words[start + offset] === word)
+  );
+}
+
+/**
+ * Normalise `"public"."users"` and `public.users` to `users`.
+ */
+export function normalizeTableName(name: string): string {
+  return name.replace(/["']/g, "").replace(/^public\./i, "");
+}
+
+/**
+ * Table name read from SQL, qualified unless it is in the `public` schema.
+ */
+export function getSqlTableName(table: { schema: string | null; name: string }): string {
+  return table.schema && table.schema !== "public" ? `${table.schema}.${table.name}` : table.name;
+}
+
+/**
+ * The policies a `pgPolicy(...)` or `crudPolicy(...)` entry declares on a table.
+ */
+export function getDrizzlePolicies(
+  imports: DrizzleImports,
+  policy: DrizzlePolicy,
+  table: string
+): RlsPolicy[] {
+  const option = (name: string): TSESTree.Node | null =>
+    (policy.options && findProperty(policy.options, name)?.value) ?? null;
+  const predicate = (node: TSESTree.Node | null): PolicyPredicate | null =>
+    node ? getPredicate(imports, node) : null;
+
+  if (policy.builder === "crudPolicy") {
+    // crudPolicy({ role, read, modify }): `read` guards SELECT, `modify` the writes,
+    // and `null` leaves the command without a policy
+    const roles = getRoles(imports, option("role"));
+    const read = isNullLiteral(option("read")) ? null : option("read");
+    const modify = isNullLiteral(option("modify")) ? null : option("modify");
+    const policies: Array<[PolicyCommand[], TSESTree.Node | null, TSESTree.Node | null]> = [];
+    if (read) {
+      policies.push([["select"], read, null]);
+    }
+    if (modify) {
+      policies.push([["insert", "update", "delete"], modify, modify]);
+    }
+
+    return policies.map(([commands, using, withCheck]) => ({
+      name: null,
+      table,
+      commands,
+      restrictive: false,
+      roles,
+      using: predicate(using),
+      withCheck: predicate(withCheck),
+      node: policy.node,
+    }));
+  }
+
+  return [
+    {
+      name: policy.name,
+      table,
+      commands: getCommands(getStaticString(option("for") ?? undefined)),
+      restrictive: getStaticString(option("as") ?? undefined)?.toLowerCase() === "restrictive",
+      roles: getRoles(imports, option("to")),
+      using: predicate(option("using")),
+      withCheck: predicate(option("withCheck")),
+      node: policy.nameNode ?? policy.node,
+    },
+  ];
+}
+
+/** Normalised name of the table interpolated as `$1`, `$2`, ..., or null when it is not known */
+export type ParameterTableResolver = (parameter: SqlToken) => string | null;
+
+/**
+ * Resolve tables interpolated into a template, e.g. sql`ALTER TABLE ${users} ...`,
+ * through the tables of the schema model.
+ */
+export function getParameterTableResolver(
+  model: SchemaModel,
+  template: SqlTemplate
+): ParameterTableResolver {
+  return (parameter) => {
+    if (template.node.type !== "TemplateLiteral") {
+      return null;
+    }
+    const expression = template.node.expressions[Number(parameter.value.slice(1)) - 1];
+    const table =
+      expression?.type === "Identifier" ? findTableByVariable(model, expression.name) : undefined;
+    const qualifiedName = table ? getQualifiedName(table) : null;
+    return qualifiedName === null ? null : normalizeTableName(qualifiedName);
+  };
+}
+
+/**
+ * Parse the RLS actions of `ALTER TABLE [IF EXISTS] [ONLY] name [*] action [, ...]`.
+ * Returns null for other statements.
+ */
+export function parseAlterTable(
+  tokens: SqlToken[],
+  resolveTable?: ParameterTableResolver
+): AlterTableRls | null {
+  if (!matchKeywords(tokens, 0, "ALTER", "TABLE")) {
+    return null;
+  }
+
+  let index = 2;
+  if (matchKeywords(tokens, index, "IF", "EXISTS")) {
+    index += 2;
+  }
+  if (isKeyword(tokens[index], "ONLY")) {
+    index++;
+  }
+  const table = readTable(tokens, index, resolveTable);
+  if (!table) {
+    return null;
+  }
+  index = table.next;
+  if (tokens[index]?.value === "*") {
+    index++;
+  }
+
+  const change: AlterTableRls = {
+    table: table.name,
+    enabled: null,
+    forced: null,
+    owner: null,
+  };
+
+  // Actions are separated by commas outside of parentheses
+  for (let start = index; start < tokens.length; ) {
+    let end = start;
+    while (end < tokens.length && !(tokens[end]?.value === "," && tokens[end]?.depth === 0)) {
+      end++;
+    }
+
+    if (matchKeywords(tokens, start + 1, "ROW", "LEVEL", "SECURITY")) {
+      if (isKeyword(tokens[start], "ENABLE", "DISABLE")) {
+        change.enabled = isKeyword(tokens[start], "ENABLE");
+      } else if (isKeyword(tokens[start], "FORCE")) {
+        change.forced = true;
+      }
+    } else if (matchKeywords(tokens, start, "NO", "FORCE", "ROW", "LEVEL", "SECURITY")) {
+      change.forced = false;
+    } else if (matchKeywords(tokens, start, "OWNER", "TO")) {
+      change.owner = getIdentifierName(tokens[start + 2]);
+    }
+
+    start = end + 1;
+  }
+
+  return change;
+}
+
+/**
+ * Parse `CREATE POLICY name ON table [AS ...] [FOR ...] [TO ...] [USING (...)] [WITH CHECK (...)]`.
+ */
+export function parseCreatePolicy(
+  tokens: SqlToken[],
+  node: TSESTree.Node,
+  resolveTable?: ParameterTableResolver
+): RlsPolicy | null {
+  const table = readPolicyTable(tokens, resolveTable);
+  if (!table) {
+    return null;
+  }
+
+  const policy: RlsPolicy = {
+    name: getIdentifierName(tokens[2]),
+    table: table.name,
+    commands: [...POLICY_COMMANDS],
+    restrictive: false,
+    roles: ["public"],
+    using: null,
+    withCheck: null,
+    node,
+  };
+
+  let index = table.next;
+  while (index < tokens.length) {
+    const token = tokens[index];
+    if (isKeyword(token, "AS")) {
+      policy.restrictive = isKeyword(tokens[index + 1], "RESTRICTIVE");
+      index += 2;
+    } else if (isKeyword(token, "FOR")) {
+      policy.commands = getCommands(tokens[index + 1]?.value ?? null);
+      index += 2;
+    } else if (isKeyword(token, "TO")) {
+      policy.roles = [];
+      index++;
+      while (index < tokens.length) {
+        const role = getIdentifierName(tokens[index]);
+        if (role !== null) {
+          policy.roles.push(role);
+        }
+        if (tokens[index + 1]?.value !== ",") {
+          break;
+        }
+        index += 2;
+      }
+      index++;
+    } else if (isKeyword(token, "USING") || matchKeywords(tokens, index, "WITH", "CHECK")) {
+      const start = index + (isKeyword(token, "USING") ? 1 : 2);
+      const end = findClosingParen(tokens, start);
+      const predicate = { alwaysTrue: isAlwaysTrue(tokens.slice(start, end + 1)), node };
+      if (isKeyword(token, "USING")) {
+        policy.using = predicate;
+      } else {
+        policy.withCheck = predicate;
+      }
+      index = end + 1;
+    } else {
+      index++;
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Table of a `CREATE POLICY name ON table ...` statement, or null for other statements.
+ */
+export function getPolicyTable(tokens: SqlToken[], resolveTable?: ParameterTableResolver): string | null {
+  return readPolicyTable(tokens, resolveTable)?.name ?? null;
+}
+
+function readPolicyTable(
+  tokens: SqlToken[],
+  resolveTable: ParameterTableResolver | undefined
+): { name: string; next: number } | null {
+  if (!matchKeywords(tokens, 0, "CREATE", "POLICY") || !isKeyword(tokens[3], "ON")) {
+    return null;
+  }
+  return readTable(tokens, 4, resolveTable);
+}
+
+// A table name, or an interpolated table such as `${users}`
+function readTable(
+  tokens: SqlToken[],
+  index: number,
+  resolveTable: ParameterTableResolver | undefined
+): { name: string; next: number } | null {
+  const token = tokens[index];
+  if (token?.type === "parameter") {
+    const name = resolveTable?.(token) ?? null;
+    return name === null ? null : { name, next: index + 1 };
+  }
+  const table = readQualifiedName(tokens, index);
+  return table && { name: getSqlTableName(table), next: table.next };
+}
+
+function getCommands(command: string | null): PolicyCommand[] {
+  const lower = command?.toLowerCase();
+  const match = POLICY_COMMANDS.find((candidate) => candidate === lower);
+  // Both Drizzle and PostgreSQL default to ALL
+  return match ? [match] : [...POLICY_COMMANDS];
+}
+
+function getRoles(imports: DrizzleImports, node: TSESTree.Node | null): string[] {
+  if (!node) {
+    return ["public"];
+  }
+  const elements = node.type === "ArrayExpression" ? node.elements : [node];
+  return elements.flatMap((element) => {
+    if (!element || element.type === "SpreadElement") {
+      return [];
+    }
+    const name = getStaticString(element);
+    if (name !== null) {
+      return [name.toLowerCase() === "public" ? "public" : name];
+    }
+    // authenticatedRole, or a pgRole("admin") variable known by its name
+    const exported = resolveDrizzleName(imports, element);
+    const role =
+      (exported && PREDEFINED_ROLES[exported]) ??
+      (element.type === "Identifier" ? element.name : null);
+    return role === null ? [] : [role];
+  });
+}
+
+function getPredicate(imports: DrizzleImports, node: TSESTree.Node): PolicyPredicate {
+  if (node.type === "Literal") {
+    return { alwaysTrue: node.value === true, node };
+  }
+  const template = getSqlTemplate(imports, node);
+  return {
+    alwaysTrue: template !== null && isAlwaysTrue(tokenizeSql(template.text)),
+    node,
+  };
+}
+
+function isNullLiteral(node: TSESTree.Node | null): boolean {
+  return node?.type === "Literal" && node.value === null;
+}
+
+/**
+ * `true`, `(true)`, `not false`, `1 = 1` or `'a' = 'a'`.
+ */
+function isAlwaysTrue(tokens: SqlToken[]): boolean {
+  const [first, second, third, ...rest] = tokens.filter(
+    (token) => token.type !== "punctuation" || (token.value !== "(" && token.value !== ")")
+  );
+  if (rest.length > 0 || !first) {
+    return false;
+  }
+  if (!second) {
+    return isKeyword(first, "TRUE");
+  }
+  if (!third) {
+    return isKeyword(first, "NOT") && isKeyword(second, "FALSE");
+  }
+  return (
+    second.type === "operator" &&
+    second.value === "=" &&
+    (first.type === "number" || first.type === "string") &&
+    first.type === third.type &&
+    first.value === third.value
+  );
+}
+
+/**
+ * Index of the `)` closing the parenthesis at `start`, or the last token when unbalanced.
+ */
+function findClosingParen(tokens: SqlToken[], start: number): number {
+  const open = tokens[start];
+  if (open?.value !== "(") {
+    return start;
+  }
+  for (let index = start + 1; index < tokens.length; index++) {
+    const token = tokens[index] as SqlToken;
+    if (token.value === ")" && token.type === "punctuation" && token.depth === open.depth) {
+      return index;
+    }
+  }
+  return tokens.length - 1;
+}
@@ -0,0 +1,774 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { getDrizzleImports, resolveDrizzleName } from "./imports";
+import type { DrizzleImports } from "./imports";
+
+export type Dialect = "pg" | "mysql" | "sqlite";
+
+export interface ColumnModifier {
+  name: string;
+  node: TSESTree.CallExpression;
+}
+
+export interface DrizzleColumn {
+  /** Property key in the column map, e.g. `userId` */
+  key: string;
+  keyNode: TSESTree.Node;
+  /** Database name passed to the builder, e.g. `user_id`, or null when derived from the key */
+  name: string | null;
+  nameNode: TSESTree.Expression | null;
+  /** Column builder, e.g. `uuid` or `timestamp` */
+  builder: string;
+  builderNode: TSESTree.CallExpression;
+  /** Chained calls after the builder, in source order */
+  modifiers: ColumnModifier[];
+  isPrimaryKey: boolean;
+  isNotNull: boolean;
+  isUnique: boolean;
+  hasDefault: boolean;
+  references: TSESTree.CallExpression | null;
+  node: TSESTree.Property;
+}
+
+export interface DrizzleIndex {
+  kind: "index" | "uniqueIndex";
+  name: string | null;
+  nameNode: TSESTree.Expression | null;
+  /** Column keys passed to `.on()` */
+  columns: string[];
+  /** Access method passed to `.using()`, e.g. `gin` */
+  method: string | null;
+  isPartial: boolean;
+  builderNode: TSESTree.CallExpression;
+  node: TSESTree.Expression;
+}
+
+export interface DrizzleConstraint {
+  kind: "primaryKey" | "foreignKey" | "unique" | "check";
+  name: string | null;
+  nameNode: TSESTree.Expression | null;
+  /** Column keys covered by the constraint */
+  columns: string[];
+  /** Variable of the table a foreign key references, e.g. `orgs` in `foreignColumns: [orgs.id]` */
+  foreignTable: string | null;
+  /** Column keys a foreign key references */
+  foreignColumns: string[];
+  /** Config object of `primaryKey({ ... })` and `foreignKey({ ... })` */
+  config: TSESTree.ObjectExpression | null;
+  builderNode: TSESTree.CallExpression;
+  node: TSESTree.Expression;
+}
+
+export interface DrizzlePolicy {
+  /** `pgPolicy`, or `crudPolicy` from `drizzle-orm/neon`, which declares several policies at once */
+  builder: "pgPolicy" | "crudPolicy";
+  name: string | null;
+  nameNode: TSESTree.Expression | null;
+  options: TSESTree.ObjectExpression | null;
+  node: TSESTree.CallExpression;
+}
+
+export interface DrizzleTable {
+  name: string | null;
+  /** Schema name for tables declared through `pgSchema("auth").table(...)` */
+  schema: string | null;
+  nameNode: TSESTree.Expression | null;
+  /** Identifier the table is assigned to, e.g. `users` in `const users = pgTable(...)` */
+  variableName: string | null;
+  dialect: Dialect;
+  columns: DrizzleColumn[];
+  /** Every key of the column map, including values that are not builder calls */
+  columnKeys: string[];
+  columnsNode: TSESTree.ObjectExpression | null;
+  indexes: DrizzleIndex[];
+  constraints: DrizzleConstraint[];
+  /** Policies from the extras callback and from `pgPolicy(...).link(table)` */
+  policies: DrizzlePolicy[];
+  /** Declared with `pgTable.withRLS(...)` or `pgTable(...).enableRLS()` */
+  rlsEnabled: boolean;
+  node: TSESTree.CallExpression;
+}
+
+export interface DrizzleEnum {
+  name: string | null;
+  schema: string | null;
+  nameNode: TSESTree.Expression | null;
+  node: TSESTree.CallExpression;
+}
+
+export interface DrizzleView {
+  kind: "view" | "materializedView";
+  name: string | null;
+  schema: string | null;
+  nameNode: TSESTree.Expression | null;
+  node: TSESTree.CallExpression;
+}
+
+export interface SchemaModel {
+  tables: DrizzleTable[];
+  enums: DrizzleEnum[];
+  views: DrizzleView[];
+  /** Policies linked to a table declared in another file, by the identifier passed to `.link()` */
+  externalPolicies: Array<{ target: string; policy: DrizzlePolicy }>;
+}
+
+const TABLE_FACTORIES: Record<string, Dialect> = {
+  pgTable: "pg",
+  mysqlTable: "mysql",
+  sqliteTable: "sqlite",
+};
+
+const VIEW_FACTORIES: Record<string, DrizzleView["kind"]> = {
+  pgView: "view",
+  pgMaterializedView: "materializedView",
+  mysqlView: "view",
+  sqliteView: "view",
+};
+
+// pgSchema("auth").enum(...) and friends, by the factory they stand for
+const SCHEMA_METHODS: Record<string, string> = {
+  enum: "pgEnum",
+  view: "pgView",
+  materializedView: "pgMaterializedView",
+};
+
+const SCHEMA_FACTORIES: Record<string, Dialect> = {
+  pgSchema: "pg",
+  mysqlSchema: "mysql",
+};
+
+const CONSTRAINT_BUILDERS = ["primaryKey", "foreignKey", "unique", "check"];
+
+const cache = new WeakMap<TSESTree.Program, SchemaModel>();
+
+interface ParseContext {
+  imports: DrizzleImports;
+  /** Variables holding a schema object, e.g. `auth` in `const auth = pgSchema("auth")` */
+  schemas: Map<string, { name: string; dialect: Dialect }>;
+}
+
+/**
+ * Build (once per file) the model of every Drizzle table declared in the file.
+ */
+export function getSchemaModel(
+  sourceCode: Readonly<{ ast: TSESTree.Program; visitorKeys: TSESLint.SourceCode.VisitorKeys }>
+): SchemaModel {
+  const cached = cache.get(sourceCode.ast);
+  if (cached) {
+    return cached;
+  }
+
+  const calls: TSESTree.CallExpression[] = [];
+  walk(sourceCode.ast, sourceCode.visitorKeys, (node) => {
+    if (node.type === "CallExpression") {
+      calls.push(node);
+    }
+  });
+
+  const parseContext: ParseContext = {
+    imports: getDrizzleImports(sourceCode.ast),
+    schemas: new Map(),
+  };
+
+  // Schema objects first, so `auth.table(...)` resolves regardless of declaration order
+  for (const node of calls) {
+    const factory = resolveDrizzleName(parseContext.imports, node.callee);
+    const dialect = factory ? SCHEMA_FACTORIES[factory] : undefined;
+    const name = getStaticString(node.arguments[0]);
+    if (
+      dialect &&
+      name !== null &&
+      node.parent.type === "VariableDeclarator" &&
+      node.parent.id.type === "Identifier"
+    ) {
+      parseContext.schemas.set(node.parent.id.name, { name, dialect });
+    }
+  }
+
+  const model: SchemaModel = { tables: [], enums: [], views: [], externalPolicies: [] };
+  for (const node of calls) {
+    const table = parseTable(parseContext, node);
+    if (table) {
+      model.tables.push(table);
+      continue;
+    }
+    parseSchemaObject(parseContext, model, node);
+  }
+
+  // Standalone policies attached with pgPolicy(...).link(table), once every table is known
+  for (const node of calls) {
+    parseLinkedPolicy(parseContext, model, node);
+  }
+
+  cache.set(sourceCode.ast, model);
+  return model;
+}
+
+/**
+ * Find a column by its key or its database name.
+ */
+export function findColumn(
+  table: DrizzleTable,
+  name: string
+): DrizzleColumn | undefined {
+  return table.columns.find((column) => column.key === name || column.name === name);
+}
+
+/**
+ * Find a table by the variable it is assigned to, e.g. `orgs` in `orgs.id`.
+ */
+export function findTableByVariable(
+  model: SchemaModel,
+  variableName: string | null
+): DrizzleTable | undefined {
+  return variableName === null
+    ? undefined
+    : model.tables.find((table) => table.variableName === variableName);
+}
+
+/**
+ * Database names of the columns with the given keys; unknown keys are kept as they are.
+ */
+export function getColumnNames(table: DrizzleTable, keys: string[]): string[] {
+  return keys.map((key) => {
+    const column = table.columns.find((candidate) => candidate.key === key);
+    return column ? getColumnName(column) : key;
+  });
+}
+
+/**
+ * Table name as written in SQL, qualified with its schema when it has one.
+ */
+export function getQualifiedName(table: DrizzleTable): string | null {
+  if (table.name === null) {
+    return null;
+  }
+  return table.schema ? `${table.schema}.${table.name}` : table.name;
+}
+
+/**
+ * Database name of a column, falling back to the key when no name was given.
+ */
+export function getColumnName(column: DrizzleColumn): string {
+  return column.name ?? column.key;
+}
+
+/**
+ * Name of the function being called: `uuid` for both `uuid()` and `t.uuid()`.
+ */
+export function getCalleeName(callee: TSESTree.Node): string | null {
+  if (callee.type === "Identifier") {
+    return callee.name;
+  }
+  if (
+    callee.type === "MemberExpression" &&
+    !callee.computed &&
+    callee.property.type === "Identifier"
+  ) {
+    return callee.property.name;
+  }
+  return null;
+}
+
+/**
+ * Value of a string literal or a template literal without expressions.
+ */
+export function getStaticString(node: TSESTree.Node | undefined): string | null {
+  if (!node) {
+    return null;
+  }
+  if (node.type === "Literal" && typeof node.value === "string") {
+    return node.value;
+  }
+  if (node.type === "TemplateLiteral" && node.expressions.length === 0) {
+    return node.quasis[0]?.value.cooked ?? null;
+  }
+  return null;
+}
+
+/**
+ * Split `base().a().b()` into the base call and the chained calls after it.
+ */
+export function unwrapCallChain(node: TSESTree.Node): {
+  base: TSESTree.CallExpression;
+  calls: ColumnModifier[];
+} | null {
+  const calls: ColumnModifier[] = [];
+  let current: TSESTree.Node = node;
+
+  while (
+    current.type === "CallExpression" &&
+    current.callee.type === "MemberExpression" &&
+    current.callee.object.type === "CallExpression"
+  ) {
+    const name = getCalleeName(current.callee);
+    if (name) {
+      calls.unshift({ name, node: current });
+    }
+    current = current.callee.object;
+  }
+
+  if (current.type !== "CallExpression") {
+    return null;
+  }
+  return { base: current, calls };
+}
+
+export function walk(
+  node: TSESTree.Node,
+  visitorKeys: TSESLint.SourceCode.VisitorKeys,
+  visit: (node: TSESTree.Node) => void
+): void {
+  visit(node);
+
+  for (const key of visitorKeys[node.type] ?? []) {
+    const child = (node as unknown as Record<string, unknown>)[key];
+    if (Array.isArray(child)) {
+      for (const item of child) {
+        if (item && typeof item.type === "string") {
+          walk(item, visitorKeys, visit);
+        }
+      }
+    } else if (child && typeof (child as TSESTree.Node).type === "string") {
+      walk(child as TSESTree.Node, visitorKeys, visit);
+    }
+  }
+}
+
+/**
+ * Recognise `pgTable(...)`, aliased or namespaced imports of it,
+ * `schema.table(...)` on a schema object, and `.withRLS(...)` on any of them.
+ */
+function resolveTableFactory(
+  parseContext: ParseContext,
+  callee: TSESTree.Node
+): { dialect: Dialect; schema: string | null; withRLS: boolean } | null {
+  if (
+    callee.type === "MemberExpression" &&
+    getCalleeName(callee) === "withRLS"
+  ) {
+    const factory = resolveTableFactory(parseContext, callee.object);
+    return factory && { ...factory, withRLS: true };
+  }
+
+  const factory = resolveDrizzleName(parseContext.imports, callee);
+  const dialect = factory ? TABLE_FACTORIES[factory] : undefined;
+  if (dialect) {
+    return { dialect, schema: null, withRLS: false };
+  }
+
+  if (
+    callee.type === "MemberExpression" &&
+    callee.object.type === "Identifier" &&
+    getCalleeName(callee) === "table"
+  ) {
+    const schema = parseContext.schemas.get(callee.object.name);
+    if (schema) {
+      return { dialect: schema.dialect, schema: schema.name, withRLS: false };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Recognise `pgEnum(...)`, `pgView(...)` and `pgMaterializedView(...)`, also
+ * as `schema.enum(...)`, `schema.view(...)` and `schema.materializedView(...)`.
+ */
+function parseSchemaObject(
+  parseContext: ParseContext,
+  model: SchemaModel,
+  node: TSESTree.CallExpression
+): void {
+  const callee = node.callee;
+  let factory = resolveDrizzleName(parseContext.imports, callee);
+  let schema: string | null = null;
+
+  if (callee.type === "MemberExpression" && callee.object.type === "Identifier") {
+    const schemaObject = parseContext.schemas.get(callee.object.name);
+    const method = getCalleeName(callee);
+    if (schemaObject && method) {
+      schema = schemaObject.name;
+      factory = SCHEMA_METHODS[method] ?? null;
+    }
+  }
+
+  const nameArg = node.arguments[0];
+  const name = getStaticString(nameArg);
+  const entry = {
+    name,
+    schema,
+    nameNode: nameArg && nameArg.type !== "SpreadElement" ? nameArg : null,
+    node,
+  };
+
+  if (factory === "pgEnum") {
+    model.enums.push(entry);
+    return;
+  }
+  const kind = factory ? VIEW_FACTORIES[factory] : undefined;
+  if (kind) {
+    model.views.push({ kind, ...entry });
+  }
+}
+
+function resolveBuilderName(
+  parseContext: ParseContext,
+  callee: TSESTree.Node
+): string | null {
+  // Column builders may also come from the callback form: (t) => ({ id: t.uuid() })
+  return resolveDrizzleName(parseContext.imports, callee) ?? getCalleeName(callee);
+}
+
+function parseTable(
+  parseContext: ParseContext,
+  node: TSESTree.CallExpression
+): DrizzleTable | null {
+  const factory = resolveTableFactory(parseContext, node.callee);
+  if (!factory) {
+    return null;
+  }
+
+  const [nameArg, columnsArg, extrasArg] = node.arguments;
+  const columnsNode = getReturnedExpression(columnsArg) ?? columnsArg;
+
+  const table: DrizzleTable = {
+    name: getStaticString(nameArg),
+    nameNode: nameArg && nameArg.type !== "SpreadElement" ? nameArg : null,
+    schema: factory.schema,
+    variableName: getVariableName(node),
+    dialect: factory.dialect,
+    columns: [],
+    columnKeys: [],
+    columnsNode: columnsNode?.type === "ObjectExpression" ? columnsNode : null,
+    indexes: [],
+    constraints: [],
+    policies: [],
+    rlsEnabled: factory.withRLS || isCalledWith(node, "enableRLS"),
+    node,
+  };
+
+  if (table.columnsNode) {
+    for (const prop of table.columnsNode.properties) {
+      const key = prop.type === "Property" ? getPropertyKey(prop) : null;
+      if (key !== null) {
+        table.columnKeys.push(key);
+      }
+      const column = parseColumn(parseContext, prop);
+      if (column) {
+        table.columns.push(column);
+      }
+    }
+  }
+
+  for (const entry of getExtrasEntries(extrasArg)) {
+    parseExtra(parseContext, table, entry);
+  }
+
+  return table;
+}
+
+function parseColumn(
+  parseContext: ParseContext,
+  prop: TSESTree.ObjectLiteralElement
+): DrizzleColumn | null {
+  if (prop.type !== "Property") {
+    return null;
+  }
+
+  const key = getPropertyKey(prop);
+  const chain = unwrapCallChain(prop.value);
+  if (key === null || !chain) {
+    return null;
+  }
+
+  const builder = resolveBuilderName(parseContext, chain.base.callee);
+  if (!builder) {
+    return null;
+  }
+
+  const nameArg = chain.base.arguments[0];
+  const name = getStaticString(nameArg);
+  const modifierNames = chain.calls.map((call) => call.name);
+
+  return {
+    key,
+    keyNode: prop.key,
+    name,
+    nameNode: name !== null && nameArg?.type !== "SpreadElement" ? nameArg ?? null : null,
+    builder,
+    builderNode: chain.base,
+    modifiers: chain.calls,
+    isPrimaryKey: modifierNames.includes("primaryKey"),
+    isNotNull: modifierNames.includes("notNull") || modifierNames.includes("primaryKey"),
+    isUnique: modifierNames.includes("unique"),
+    hasDefault: modifierNames.some((modifier) =>
+      ["default", "defaultNow", "defaultRandom", "$defaultFn", "$default"].includes(modifier)
+    ),
+    references: chain.calls.find((call) => call.name === "references")?.node ?? null,
+    node: prop,
+  };
+}
+
+function parseExtra(
+  parseContext: ParseContext,
+  table: DrizzleTable,
+  entry: TSESTree.Expression
+): void {
+  const chain = unwrapCallChain(entry);
+  if (!chain) {
+    return;
+  }
+
+  const builder = resolveBuilderName(parseContext, chain.base.callee);
+  const nameArg = chain.base.arguments[0];
+  const name = getStaticString(nameArg);
+  const nameNode = name !== null && nameArg?.type !== "SpreadElement" ? nameArg ?? null : null;
+
+  if (builder === "index" || builder === "uniqueIndex") {
+    const usingCall = chain.calls.find((call) => call.name === "using");
+    table.indexes.push({
+      kind: builder,
+      name,
+      nameNode,
+      columns: getChainColumns(chain.calls, ["on", "onOnly", "using"]),
+      method: getStaticString(usingCall?.node.arguments[0]),
+      isPartial: chain.calls.some((call) => call.name === "where"),
+      builderNode: chain.base,
+      node: entry,
+    });
+    return;
+  }
+
+  if (builder === "pgPolicy" || builder === "crudPolicy") {
+    table.policies.push(parsePolicy(builder, chain.base));
+    return;
+  }
+
+  if (builder && CONSTRAINT_BUILDERS.includes(builder)) {
+    const kind = builder as DrizzleConstraint["kind"];
+    const config = nameArg?.type === "ObjectExpression" ? nameArg : null;
+    let columns: string[];
+    let foreignTable: string | null = null;
+    let foreignColumns: string[] = [];
+
+    if (config) {
+      // primaryKey({ columns, name }) / foreignKey({ columns, foreignColumns, name })
+      const columnsProp = findProperty(config, "columns");
+      columns =
+        columnsProp?.value.type === "ArrayExpression"
+          ? getColumnKeys(columnsProp.value.elements)
+          : [];
+
+      const foreignProp = findProperty(config, "foreignColumns");
+      if (foreignProp?.value.type === "ArrayExpression") {
+        foreignColumns = getColumnKeys(foreignProp.value.elements);
+        foreignTable = getTableReference(foreignProp.value.elements[0]);
+      }
+    } else if (kind === "primaryKey") {
+      // Legacy primaryKey(t.a, t.b)
+      columns = getColumnKeys(chain.base.arguments);
+    } else {
+      columns = getChainColumns(chain.calls, ["on"]);
+    }
+
+    const configName = config ? findProperty(config, "name") : undefined;
+    const resolvedName = configName ? getStaticString(configName.value) : name;
+
+    table.constraints.push({
+      kind,
+      name: resolvedName,
+      nameNode:
+        configName && resolvedName !== null
+          ? (configName.value as TSESTree.Expression)
+          : nameNode,
+      columns,
+      foreignTable,
+      foreignColumns,
+      config,
+      builderNode: chain.base,
+      node: entry,
+    });
+  }
+}
+
+function getChainColumns(calls: ColumnModifier[], methods: string[]): string[] {
+  const call = calls.find((candidate) => methods.includes(candidate.name));
+  return call ? getColumnKeys(call.node.arguments) : [];
+}
+
+function getColumnKeys(
+  nodes: ReadonlyArray<TSESTree.Node | null>
+): string[] {
+  const keys: string[] = [];
+  for (const node of nodes) {
+    const key = node ? getColumnReference(node) : null;
+    if (key) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Column key referenced by `table.userId`, `table.userId.desc()` or `table.email.op("...")`.
+ */
+function getColumnReference(node: TSESTree.Node): string | null {
+  let current = node;
+  while (current.type === "CallExpression" && current.callee.type === "MemberExpression") {
+    current = current.callee.object;
+  }
+  if (
+    current.type === "MemberExpression" &&
+    !current.computed &&
+    current.property.type === "Identifier"
+  ) {
+    return current.property.name;
+  }
+  return null;
+}
+
+/**
+ * Table variable referenced by `orgs.id`.
+ */
+function getTableReference(node: TSESTree.Node | null | undefined): string | null {
+  return node?.type === "MemberExpression" && node.object.type === "Identifier"
+    ? node.object.name
+    : null;
+}
+
+/**
+ * Recognise `pgPolicy(...).link(table)` and add the policy to the linked table.
+ */
+function parseLinkedPolicy(
+  parseContext: ParseContext,
+  model: SchemaModel,
+  node: TSESTree.CallExpression
+): void {
+  const callee = node.callee;
+  if (
+    callee.type !== "MemberExpression" ||
+    getCalleeName(callee) !== "link" ||
+    callee.object.type !== "CallExpression" ||
+    resolveDrizzleName(parseContext.imports, callee.object.callee) !== "pgPolicy"
+  ) {
+    return;
+  }
+
+  const target = node.arguments[0];
+  if (target?.type !== "Identifier") {
+    return;
+  }
+  const policy = parsePolicy("pgPolicy", callee.object);
+  const table = findTableByVariable(model, target.name);
+  if (table) {
+    table.policies.push(policy);
+  } else {
+    model.externalPolicies.push({ target: target.name, policy });
+  }
+}
+
+function parsePolicy(
+  builder: DrizzlePolicy["builder"],
+  node: TSESTree.CallExpression
+): DrizzlePolicy {
+  // pgPolicy("name", { ... }) / crudPolicy({ ... })
+  const [nameArg, optionsArg] =
+    builder === "pgPolicy" ? node.arguments : [undefined, node.arguments[0]];
+  const name = getStaticString(nameArg);
+  return {
+    builder,
+    name,
+    nameNode: name !== null && nameArg?.type !== "SpreadElement" ? nameArg ?? null : null,
+    options: optionsArg?.type === "ObjectExpression" ? optionsArg : null,
+    node,
+  };
+}
+
+/**
+ * Whether `node` is the object of a call to `method`, e.g. `pgTable(...).enableRLS()`.
+ */
+function isCalledWith(node: TSESTree.Node, method: string): boolean {
+  const parent = node.parent;
+  return (
+    parent?.type === "MemberExpression" &&
+    parent.object === node &&
+    getCalleeName(parent) === method &&
+    parent.parent.type === "CallExpression" &&
+    parent.parent.callee === parent
+  );
+}
+
+function getExtrasEntries(node: TSESTree.Node | undefined): TSESTree.Expression[] {
+  const returned = getReturnedExpression(node);
+  // Spreads are kept for helpers returning several entries, e.g. ...crudPolicy({ ... })
+  if (returned?.type === "ObjectExpression") {
+    return returned.properties.map((prop) =>
+      prop.type === "Property" ? (prop.value as TSESTree.Expression) : prop.argument
+    );
+  }
+  if (returned?.type === "ArrayExpression") {
+    return returned.elements
+      .filter((element) => element !== null)
+      .map((element) => (element.type === "SpreadElement" ? element.argument : element));
+  }
+  return [];
+}
+
+/**
+ * Expression returned by `(t) => ({...})` or `(t) => { return {...}; }`.
+ */
+function getReturnedExpression(
+  node: TSESTree.Node | undefined
+): TSESTree.Expression | null {
+  if (
+    node?.type !== "ArrowFunctionExpression" &&
+    node?.type !== "FunctionExpression"
+  ) {
+    return null;
+  }
+  if (node.body.type !== "BlockStatement") {
+    return node.body;
+  }
+  const returnStmt = node.body.body.find(
+    (stmt): stmt is TSESTree.ReturnStatement => stmt.type === "ReturnStatement"
+  );
+  return returnStmt?.argument ?? null;
+}
+
+/**
+ * Property of an object literal with the given static key.
+ */
+export function findProperty(
+  node: TSESTree.ObjectExpression,
+  name: string
+): TSESTree.Property | undefined {
+  return node.properties.find(
+    (prop): prop is TSESTree.Property =>
+      prop.type === "Property" && getPropertyKey(prop) === name
+  );
+}
+
+/**
+ * Static key of a property: `name` for both `name: ...` and `"name": ...`.
+ */
+export function getPropertyKey(prop: TSESTree.Property): string | null {
+  if (prop.key.type === "Identifier" && !prop.computed) {
+    return prop.key.name;
+  }
+  if (prop.key.type === "Literal" && typeof prop.key.value === "string") {
+    return prop.key.value;
+  }
+  return null;
+}
+
+function getVariableName(node: TSESTree.Node): string | null {
+  let current: TSESTree.Node | undefined = node.parent;
+  // Allow chained table helpers such as pgTable(...).enableRLS()
+  while (current?.type === "MemberExpression" || current?.type === "CallExpression") {
+    current = current.parent;
+  }
+  if (current?.type === "VariableDeclarator" && current.id.type === "Identifier") {
+    return current.id.name;
+  }
+  return null;
+}
@@ -0,0 +1,373 @@
+import type { TSESTree } from "@typescript-eslint/utils";
+import type { DrizzleImports } from "./imports";
+import { resolveDrizzleName } from "./imports";
+
+export interface SqlToken {
+  type: "word" | "identifier" | "string" | "number" | "parameter" | "punctuation" | "operator";
+  /** Source text, without the quotes of quoted identifiers and strings */
+  value: string;
+  start: number;
+  end: number;
+  /** Parenthesis nesting depth of the token */
+  depth: number;
+}
+
+export interface SqlStatement {
+  tokens: SqlToken[];
+  /** Main command, e.g. `DELETE` for `WITH old AS (...) DELETE FROM ...` */
+  command: string | null;
+  /** Index of the command token in `tokens` */
+  commandIndex: number;
+}
+
+export interface SqlTemplate {
+  node: TSESTree.TemplateLiteral | TSESTree.StringLiteral;
+  /** SQL text, with `$1`, `$2`, ... in place of interpolated values */
+  text: string;
+}
+
+const DATA_COMMANDS = new Set(["SELECT", "INSERT", "UPDATE", "DELETE", "MERGE"]);
+
+/**
+ * The raw SQL of a `sql` template: sql`...`, sql(`...`) or sql.raw("...").
+ */
+export function getSqlTemplate(
+  imports: DrizzleImports,
+  node: TSESTree.Node
+): SqlTemplate | null {
+  if (node.type === "TaggedTemplateExpression") {
+    return resolveDrizzleName(imports, node.tag) === "sql"
+      ? { node: node.quasi, text: getTemplateText(node.quasi) }
+      : null;
+  }
+
+  if (node.type !== "CallExpression") {
+    return null;
+  }
+
+  const argument = node.arguments[0];
+  const isSqlCall = resolveDrizzleName(imports, node.callee) === "sql";
+  const isRawCall =
+    node.callee.type === "MemberExpression" &&
+    !node.callee.computed &&
+    node.callee.property.type === "Identifier" &&
+    node.callee.property.name === "raw" &&
+    resolveDrizzleName(imports, node.callee.object) === "sql";
+
+  if (!isSqlCall && !isRawCall) {
+    return null;
+  }
+  if (argument?.type === "TemplateLiteral") {
+    return { node: argument, text: getTemplateText(argument) };
+  }
+  if (isRawCall && argument?.type === "Literal" && typeof argument.value === "string") {
+    return { node: argument as TSESTree.StringLiteral, text: argument.value };
+  }
+  return null;
+}
+
+function getTemplateText(template: TSESTree.TemplateLiteral): string {
+  return template.quasis
+    .map((quasi, index) => (index === 0 ? "" : `$${index}`) + (quasi.value.cooked ?? quasi.value.raw))
+    .join("");
+}
+
+/**
+ * Split SQL into tokens, skipping whitespace and comments.
+ */
+export function tokenizeSql(text: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let depth = 0;
+  let index = 0;
+
+  function push(type: SqlToken["type"], value: string, start: number, tokenDepth = depth): void {
+    tokens.push({ type, value, start, end: index, depth: tokenDepth });
+  }
+
+  while (index < text.length) {
+    const start = index;
+    const char = text[index] as string;
+    const next = text[index + 1];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === "-" && next === "-") {
+      const end = text.indexOf("\n", index);
+      index = end === -1 ? text.length : end;
+    } else if (char === "/" && next === "*") {
+      // Block comments nest in PostgreSQL
+      let nesting = 0;
+      while (index < text.length) {
+        if (text.startsWith("/*", index)) {
+          nesting++;
+          index += 2;
+        } else if (text.startsWith("*/", index)) {
+          nesting--;
+          index += 2;
+          if (nesting === 0) {
+            break;
+          }
+        } else {
+          index++;
+        }
+      }
+    } else if (char === "'" || ((char === "E" || char === "e") && next === "'")) {
+      const escapes = char !== "'";
+      index += escapes ? 2 : 1;
+      let value = "";
+      while (index < text.length) {
+        const current = text[index] as string;
+        if (escapes && current === "\\") {
+          value += text[index + 1] ?? "";
+          index += 2;
+        } else if (current === "'" && text[index + 1] === "'") {
+          value += "'";
+          index += 2;
+        } else if (current === "'") {
+          index++;
+          break;
+        } else {
+          value += current;
+          index++;
+        }
+      }
+      push("string", value, start);
+    } else if (char === '"') {
+      index++;
+      let value = "";
+      while (index < text.length) {
+        if (text[index] === '"' && text[index + 1] === '"') {
+          value += '"';
+          index += 2;
+        } else if (text[index] === '"') {
+          index++;
+          break;
+        } else {
+          value += text[index];
+          index++;
+        }
+      }
+      push("identifier", value, start);
+    } else if (char === "$" && next !== undefined && /\d/.test(next)) {
+      index++;
+      while (index < text.length && /\d/.test(text[index] as string)) {
+        index++;
+      }
+      push("parameter", text.slice(start, index), start);
+    } else if (char === "$" && /^\$(?:[A-Za-z_]\w*)?\$/.test(text.slice(index))) {
+      // Dollar-quoted string: $$...$$ or $tag$...$tag$
+      const tag = (/^\$(?:[A-Za-z_]\w*)?\$/.exec(text.slice(index)) as RegExpExecArray)[0];
+      const end = text.indexOf(tag, index + tag.length);
+      const bodyEnd = end === -1 ? text.length : end;
+      const value = text.slice(index + tag.length, bodyEnd);
+      index = end === -1 ? text.length : end + tag.length;
+      push("string", value, start);
+    } else if (/[\p{L}_]/u.test(char)) {
+      while (index < text.length && /[\p{L}\p{N}_$]/u.test(text[index] as string)) {
+        index++;
+      }
+      push("word", text.slice(start, index), start);
+    } else if (/\d/.test(char) || (char === "." && next !== undefined && /\d/.test(next))) {
+      while (index < text.length && /[\d.eE]/.test(text[index] as string)) {
+        index++;
+      }
+      push("number", text.slice(start, index), start);
+    } else if (char === "(") {
+      index++;
+      push("punctuation", char, start);
+      depth++;
+    } else if (char === ")") {
+      index++;
+      depth = Math.max(0, depth - 1);
+      push("punctuation", char, start);
+    } else if (",;.[]".includes(char)) {
+      index++;
+      push("punctuation", char, start);
+    } else {
+      index++;
+      push("operator", char, start);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Tokenize SQL and split it into statements.
+ */
+export function parseSql(text: string): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let tokens: SqlToken[] = [];
+
+  function flush(): void {
+    if (tokens.length > 0) {
+      const commandIndex = getCommandIndex(tokens);
+      statements.push({
+        tokens,
+        command: tokens[commandIndex]?.value.toUpperCase() ?? null,
+        commandIndex,
+      });
+      tokens = [];
+    }
+  }
+
+  for (const token of tokenizeSql(text)) {
+    if (token.type === "punctuation" && token.value === ";" && token.depth === 0) {
+      flush();
+    } else {
+      tokens.push(token);
+    }
+  }
+  flush();
+
+  return statements;
+}
+
+function getCommandIndex(tokens: SqlToken[]): number {
+  if (!isKeyword(tokens[0], "WITH")) {
+    return tokens[0]?.type === "word" ? 0 : -1;
+  }
+  // Skip the common table expressions to the statement they feed
+  return tokens.findIndex(
+    (token, index) =>
+      index > 0 &&
+      token.depth === 0 &&
+      token.type === "word" &&
+      DATA_COMMANDS.has(token.value.toUpperCase())
+  );
+}
+
+/**
+ * Whether the token is the given keyword (case-insensitive, unquoted).
+ */
+export function isKeyword(token: SqlToken | undefined, ...keywords: string[]): boolean {
+  return token?.type === "word" && keywords.includes(token.value.toUpperCase());
+}
+
+/**
+ * Whether the tokens starting at `index` are the given keywords, e.g. `ROW LEVEL SECURITY`.
+ */
+export function matchKeywords(tokens: SqlToken[], index: number, ...keywords: string[]): boolean {
+  return keywords.every((keyword, offset) => isKeyword(tokens[index + offset], keyword));
+}
+
+/**
+ * Whether the statement has the keyword outside of any parentheses after
+ * its command, e.g. the `WHERE` of a DELETE but not of a subquery.
+ */
+export function hasTopLevelKeyword(statement: SqlStatement, keyword: string): boolean {
+  return statement.tokens.some(
+    (token, index) =>
+      index > statement.commandIndex && token.depth === 0 && isKeyword(token, keyword)
+  );
+}
+
+// Keywords followed by a value, so an interpolation after them is an expression
+const VALUE_KEYWORDS = new Set([
+  "SET", "FROM", "USING", "RETURNING", "ONLY", "AS",
+  "AND", "OR", "NOT", "IS", "IN", "LIKE", "ILIKE", "BETWEEN",
+]);
+
+/**
+ * Whether an interpolated fragment after the target table of an UPDATE or
+ * DELETE could add clauses the text doesn't show, e.g. the `${where}` of
+ * sql`DELETE FROM users ${where}` or sql`UPDATE users SET name = ${name} ${where}`.
+ * Interpolations after an operator, a comma or a keyword are values.
+ */
+export function hasInterpolatedClause(statement: SqlStatement): boolean {
+  const tokens = statement.tokens;
+  let index = statement.commandIndex + 1;
+  while (isKeyword(tokens[index], "FROM", "ONLY")) {
+    index++;
+  }
+  const target = tokens[index]?.type === "parameter" ? index + 1 : readQualifiedName(tokens, index)?.next;
+  if (target === undefined) {
+    return false;
+  }
+
+  return tokens.some((token, current) => {
+    const previous = tokens[current - 1];
+    if (current < target || token.type !== "parameter" || token.depth !== 0 || !previous) {
+      return false;
+    }
+    if (previous.type === "word") {
+      return !VALUE_KEYWORDS.has(previous.value.toUpperCase());
+    }
+    return previous.type !== "operator" && !(previous.type === "punctuation" && previous.value !== ")");
+  });
+}
+
+/**
+ * Name of an identifier token: quoted identifiers keep their case, unquoted
+ * ones are folded to lower case like PostgreSQL does.
+ */
+export function getIdentifierName(token: SqlToken | undefined): string | null {
+  if (token?.type === "identifier") {
+    return token.value;
+  }
+  if (token?.type === "word") {
+    return token.value.toLowerCase();
+  }
+  return null;
+}
+
+/**
+ * Read a possibly schema-qualified name such as `auth.users` or `"auth"."Users"`.
+ */
+export function readQualifiedName(
+  tokens: SqlToken[],
+  index: number
+): { schema: string | null; name: string; next: number } | null {
+  const first = getIdentifierName(tokens[index]);
+  if (first === null) {
+    return null;
+  }
+
+  const dot = tokens[index + 1];
+  const second = getIdentifierName(tokens[index + 2]);
+  if (dot?.type === "punctuation" && dot.value === "." && second !== null) {
+    return { schema: first, name: second, next: index + 3 };
+  }
+  return { schema: null, name: first, next: index + 1 };
+}
+
+/**
+ * `*` entries in select lists: `SELECT *`, `SELECT DISTINCT *`, `SELECT u.*, ...`.
+ * `count(*)`, multiplications and `EXISTS (SELECT * ...)` are not reported.
+ */
+export function findSelectStars(statement: SqlStatement): SqlToken[] {
+  const stars: SqlToken[] = [];
+  const tokens = statement.tokens;
+
+  tokens.forEach((token, index) => {
+    if (!isKeyword(token, "SELECT")) {
+      return;
+    }
+    // The select list of EXISTS (SELECT * ...) is never read
+    const open = tokens[index - 1];
+    if (open?.type === "punctuation" && open.value === "(" && isKeyword(tokens[index - 2], "EXISTS")) {
+      return;
+    }
+
+    for (let current = index + 1; current < tokens.length; current++) {
+      const candidate = tokens[current] as SqlToken;
+      if (candidate.depth < token.depth || isKeyword(candidate, "FROM", "INTO")) {
+        break;
+      }
+      if (candidate.depth !== token.depth || candidate.value !== "*" || candidate.type !== "operator") {
+        continue;
+      }
+
+      const previous = tokens[current - 1] as SqlToken;
+      if (
+        previous === token ||
+        isKeyword(previous, "DISTINCT", "ALL") ||
+        (previous.type === "punctuation" && (previous.value === "," || previous.value === "."))
+      ) {
+        stars.push(candidate);
+      }
+    }
+  });
+
+  return stars;
+}
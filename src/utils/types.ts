@@ -0,0 +1,100 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import type * as ts from "typescript";
+
+/** Drizzle classes every database and transaction object derives from */
+const DRIZZLE_DATABASE_CLASSES = new Set([
+  "PgDatabase",
+  "PgTransaction",
+  "MySqlDatabase",
+  "MySqlTransaction",
+  "BaseSQLiteDatabase",
+  "SQLiteTransaction",
+]);
+
+// ts.TypeFlags.Any | ts.TypeFlags.Unknown, inlined to avoid a runtime dependency on typescript
+const ANY_OR_UNKNOWN = 1 | 2;
+// ts.TypeFlags.Void | ts.TypeFlags.Undefined
+const VOID_OR_UNDEFINED = 16384 | 32768;
+
+interface TypeServices {
+  checker: ts.TypeChecker;
+  getTypeAtLocation: (node: TSESTree.Node) => ts.Type;
+}
+
+/**
+ * Type information for the file, or null when the parser was not configured
+ * with a TypeScript project.
+ */
+export function getTypeServices(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>
+): TypeServices | null {
+  const services = context.sourceCode.parserServices;
+  if (!services?.program || !("getTypeAtLocation" in services)) {
+    return null;
+  }
+  return {
+    checker: services.program.getTypeChecker(),
+    getTypeAtLocation: services.getTypeAtLocation,
+  };
+}
+
+/**
+ * Whether the expression is typed as a Drizzle database or transaction.
+ * Returns null when that cannot be decided from types (no type information,
+ * or the expression is `any`), so callers can fall back to name heuristics.
+ */
+export function isDrizzleDatabaseType(
+  services: TypeServices,
+  node: TSESTree.Node
+): boolean | null {
+  const type = services.getTypeAtLocation(node).getNonNullableType();
+  if (type.flags & ANY_OR_UNKNOWN) {
+    return null;
+  }
+  return isDrizzleType(services.checker, type, new Set());
+}
+
+/**
+ * Whether the expression's type includes `undefined`. Returns null when that
+ * cannot be decided from types.
+ */
+export function isPossiblyUndefinedType(
+  services: TypeServices,
+  node: TSESTree.Node
+): boolean | null {
+  const type = services.getTypeAtLocation(node);
+  if (type.flags & ANY_OR_UNKNOWN) {
+    return null;
+  }
+  const parts = type.isUnion() ? type.types : [type];
+  return parts.some((part) => (part.flags & VOID_OR_UNDEFINED) !== 0);
+}
+
+function isDrizzleType(
+  checker: ts.TypeChecker,
+  type: ts.Type,
+  seen: Set<ts.Type>
+): boolean {
+  if (seen.has(type)) {
+    return false;
+  }
+  seen.add(type);
+
+  // NodePgDatabase<typeof schema> & { $client: Pool }
+  if (type.isUnionOrIntersection()) {
+    return type.types.some((part) => isDrizzleType(checker, part, seen));
+  }
+
+  const symbol = type.getSymbol() ?? type.aliasSymbol;
+  if (!symbol) {
+    return false;
+  }
+  if (DRIZZLE_DATABASE_CLASSES.has(symbol.getName())) {
+    return true;
+  }
+
+  // Generic instantiations carry no base types; ask the declared class instead
+  const declared = checker.getDeclaredTypeOfSymbol(symbol);
+  const baseTypes = declared.isClassOrInterface() ? declared.getBaseTypes() ?? [] : [];
+  return baseTypes.some((base) => isDrizzleType(checker, base, seen));
+}
@@ -0,0 +1,248 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import { Linter } from "eslint";
+import { describe, expect, it } from "vitest";
+
+import constraintNamingRule from "../src/enforce-constraint-naming";
+import indexNamingRule from "../src/enforce-index-naming";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+const orgs = `const orgs = pgTable("orgs", {
+  id: uuid("id").primaryKey(),
+});
+`;
+
+ruleTester.run("enforce-constraint-naming", constraintNamingRule, {
+  valid: [
+    // Names Drizzle would generate
+    `${orgs}const members = pgTable("members", {
+      orgId: uuid("org_id"),
+      userId: uuid("user_id"),
+      email: text("email"),
+      age: integer("age"),
+    }, (t) => [
+      primaryKey({ columns: [t.orgId, t.userId], name: "members_org_id_user_id_pk" }),
+      foreignKey({
+        columns: [t.orgId],
+        foreignColumns: [orgs.id],
+        name: "members_org_id_orgs_id_fk",
+      }),
+      unique("members_email_unique").on(t.email),
+      check("members_adult_check", sql\`\${t.age} >= 18\`),
+    ])`,
+
+    // Custom templates
+    {
+      code: `const users = pgTable("users", {
+        id: uuid("id"),
+        email: text("email"),
+      }, (t) => [
+        primaryKey({ columns: [t.id], name: "pk_users" }),
+      ])`,
+      options: [{ templates: { primaryKey: "pk_{table}" } }],
+    },
+
+    // unique() constraints are left to enforce-index-naming
+    `const users = pgTable("users", {
+      email: text("email"),
+    }, (t) => [
+      unique("uq_users_email").on(t.email),
+      unique().on(t.email),
+    ])`,
+
+    // Referenced table declared in another file
+    `const members = pgTable("members", {
+      orgId: uuid("org_id"),
+    }, (t) => [
+      foreignKey({ columns: [t.orgId], foreignColumns: [orgs.id], name: "members_org_id_orgs_id_fk" }),
+    ])`,
+
+    // Legacy primaryKey(t.a, t.b) cannot take a name
+    `const members = pgTable("members", {
+      orgId: uuid("org_id"),
+      userId: uuid("user_id"),
+    }, (t) => ({
+      pk: primaryKey(t.orgId, t.userId),
+    }))`,
+
+    // Names given through a variable
+    `const users = pgTable("users", {
+      email: text("email"),
+    }, (t) => [
+      unique(EMAIL_UNIQUE).on(t.email),
+    ])`,
+  ],
+  invalid: [
+    // Hand-written names, renamed by a suggestion since it changes the schema
+    {
+      code: `${orgs}const members = pgTable("members", {
+        orgId: uuid("org_id"),
+        userId: uuid("user_id"),
+      }, (t) => [
+        primaryKey({ columns: [t.orgId, t.userId], name: "members_pkey" }),
+        foreignKey({ columns: [t.orgId], foreignColumns: [orgs.id], name: "fk1" }),
+      ])`,
+      output: null,
+      errors: [
+        {
+          messageId: "invalidConstraintName",
+          data: { name: "members_pkey", template: "{table}_{columns}_pk" },
+          suggestions: [
+            {
+              messageId: "renameConstraint",
+              data: { expected: "members_org_id_user_id_pk" },
+              output: `${orgs}const members = pgTable("members", {
+        orgId: uuid("org_id"),
+        userId: uuid("user_id"),
+      }, (t) => [
+        primaryKey({ columns: [t.orgId, t.userId], name: "members_org_id_user_id_pk" }),
+        foreignKey({ columns: [t.orgId], foreignColumns: [orgs.id], name: "fk1" }),
+      ])`,
+            },
+          ],
+        },
+        {
+          messageId: "invalidConstraintName",
+          data: { name: "fk1", template: "{table}_{columns}_{foreignTable}_{foreignColumns}_fk" },
+          suggestions: [
+            {
+              messageId: "renameConstraint",
+              data: { expected: "members_org_id_orgs_id_fk" },
+              output: `${orgs}const members = pgTable("members", {
+        orgId: uuid("org_id"),
+        userId: uuid("user_id"),
+      }, (t) => [
+        primaryKey({ columns: [t.orgId, t.userId], name: "members_pkey" }),
+        foreignKey({ columns: [t.orgId], foreignColumns: [orgs.id], name: "members_org_id_orgs_id_fk" }),
+      ])`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Check names only need the template's shape
+    {
+      code: `const users = pgTable("users", {
+        age: integer("age"),
+      }, (t) => [
+        check("adult", sql\`\${t.age} >= 18\`),
+      ])`,
+      output: null,
+      errors: [
+        {
+          messageId: "invalidConstraintName",
+          data: { name: "adult", template: "{table}_{purpose}_check" },
+        },
+      ],
+    },
+
+    // Missing names are filled in
+    {
+      code: `${orgs}const members = pgTable('members', {
+        orgId: uuid('org_id'),
+        email: text('email'),
+      }, (t) => [
+        primaryKey({ columns: [t.orgId, t.email] }),
+        foreignKey({
+          columns: [t.orgId],
+          foreignColumns: [orgs.id],
+        }),
+      ])`,
+      output: `${orgs}const members = pgTable('members', {
+        orgId: uuid('org_id'),
+        email: text('email'),
+      }, (t) => [
+        primaryKey({ columns: [t.orgId, t.email], name: 'members_org_id_email_pk' }),
+        foreignKey({
+          columns: [t.orgId],
+          foreignColumns: [orgs.id],
+          name: 'members_org_id_orgs_id_fk',
+        }),
+      ])`,
+      errors: [
+        {
+          messageId: "missingConstraintName",
+          data: { kind: "primary key", template: "{table}_{columns}_pk" },
+        },
+        {
+          messageId: "missingConstraintName",
+          data: {
+            kind: "foreign key",
+            template: "{table}_{columns}_{foreignTable}_{foreignColumns}_fk",
+          },
+        },
+      ],
+    },
+
+    // No fix when the referenced table is unknown
+    {
+      code: `const members = pgTable("members", {
+        orgId: uuid("org_id"),
+      }, (t) => [
+        foreignKey({ columns: [t.orgId], foreignColumns: [orgs.id] }),
+      ])`,
+      output: null,
+      errors: [{ messageId: "missingConstraintName" }],
+    },
+
+    // Names must be unique across the file, including index names
+    {
+      code: `const users = pgTable("users", {
+        email: text("email"),
+      }, (t) => [
+        uniqueIndex("accounts_email_unique").on(t.email),
+      ]);
+      const accounts = pgTable("accounts", {
+        email: text("email"),
+      }, (t) => [
+        unique("accounts_email_unique").on(t.email),
+      ])`,
+      errors: [{ messageId: "duplicateConstraintName", data: { name: "accounts_email_unique" } }],
+    },
+  ],
+});
+
+// Both rules run in the all and strict configs, so they must agree on unique()
+describe("enforce-constraint-naming with enforce-index-naming", () => {
+  const linter = new Linter({ configType: "flat" });
+  const config = {
+    files: ["**/*.ts"],
+    languageOptions: { parser: require("@typescript-eslint/parser") },
+    plugins: {
+      drizzle: {
+        rules: {
+          "enforce-constraint-naming": constraintNamingRule,
+          "enforce-index-naming": indexNamingRule,
+        },
+      },
+    },
+    rules: {
+      "drizzle/enforce-constraint-naming": "error",
+      "drizzle/enforce-index-naming": "error",
+    },
+  } as unknown as Linter.Config;
+
+  it("fixes a unique constraint name once, to a name both rules accept", () => {
+    const result = linter.verifyAndFix(
+      `const users = pgTable("users", {
+        email: text("email"),
+      }, (t) => [
+        unique("email_uq").on(t.email),
+      ])`,
+      config,
+      "schema.ts"
+    );
+    expect(result.output).toContain(`unique("uq_users_email")`);
+    expect(result.messages).toEqual([]);
+  });
+});
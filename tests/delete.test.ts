@@ -20,6 +20,48 @@ ruleTester.run("my-rule", myRule, {
     `dataSource
       .delete()
       .where()`,
+    "await db.delete(users).where(eq(users.id, id)).returning();",
+    "await db.delete(users).returning().where(eq(users.id, id));",
+    `const q = db.delete(users);
+    await q.where(eq(users.id, id));`,
+    `let q = db.delete(users).$dynamic();
+    q = q.where(eq(users.id, id));
+    await q;`,
+    `const q = db.delete(users).$dynamic();
+    await withTenantFilter(q, tenantId);`,
+    {
+      code: "cache.delete(key)",
+      options: [{ drizzleObjectName: "db" }],
+    },
+    {
+      code: "map.delete(k); set.delete(v);",
+      options: [{ drizzleObjectName: ["db", "tx"] }],
+    },
+    {
+      code: `queue.transaction(async (job) => {
+        await job.delete(entry);
+      });`,
+      options: [{ drizzleObjectName: "db" }],
+    },
+    {
+      code: `db.transaction(async (trx) => {
+        await trx.delete(sessions).where(eq(sessions.userId, id));
+      });`,
+      options: [{ drizzleObjectName: "db" }],
+    },
+    {
+      code: "redis.delete(key)",
+      options: [{ drizzleObjectName: "/^\\w+Db$/" }],
+    },
+
+    // Raw SQL with a WHERE clause, or not a DELETE statement
+    "await db.execute(sql`DELETE FROM users WHERE id = ${id}`);",
+    "await db.execute(sql`delete from sessions where expires_at < now()`);",
+    "sql`CREATE POLICY owner_delete ON posts FOR DELETE USING (author_id = auth.uid())`;",
+    "sql`SELECT 'DELETE FROM users' AS example`;",
+    // The interpolated fragment may hold the WHERE
+    "await db.execute(sql`DELETE FROM users ${where}`);",
+    "await db.execute(sql`DELETE FROM ${users} AS u ${whereClause} RETURNING u.id`);",
   ],
   invalid: [
     {
@@ -39,5 +81,129 @@ ruleTester.run("my-rule", myRule, {
         .delete({})`,
       errors: [{ messageId: "enforceDeleteWithWhere" }],
     },
+    {
+      code: "await db.delete(users).returning()",
+      errors: [{ messageId: "enforceDeleteWithWhere" }],
+    },
+    {
+      code: `const q = db.delete(users);
+      await q.returning();`,
+      errors: [{ messageId: "enforceDeleteWithWhere" }],
+    },
+    {
+      code: `await db.select().from(users).where(eq(users.id, id));
+      await db.delete(sessions);`,
+      errors: [{ messageId: "enforceDeleteWithWhere" }],
+    },
+    {
+      code: "await Promise.all([db.delete(users), db.delete(posts)])",
+      errors: [
+        { messageId: "enforceDeleteWithWhere" },
+        { messageId: "enforceDeleteWithWhere" },
+      ],
+    },
+    {
+      code: "this.db.delete(users)",
+      options: [{ drizzleObjectName: "db" }],
+      errors: [{ messageId: "enforceDeleteWithWhere" }],
+    },
+    {
+      code: "tx.delete(users)",
+      options: [{ drizzleObjectName: ["db", "tx"] }],
+      errors: [{ messageId: "enforceDeleteWithWhere" }],
+    },
+    {
+      code: `await db.transaction(async (trx) => {
+        await trx.delete(sessions);
+      });`,
+      options: [{ drizzleObjectName: "db" }],
+      errors: [{ messageId: "enforceDeleteWithWhere" }],
+    },
+    {
+      code: `await db.transaction(async function (outer) {
+        await outer.transaction(async (savepoint) => {
+          await savepoint.delete(sessions);
+        });
+      });`,
+      options: [{ drizzleObjectName: "db" }],
+      errors: [{ messageId: "enforceDeleteWithWhere" }],
+    },
+    {
+      code: "analyticsDb.delete(events)",
+      options: [{ drizzleObjectName: "/^\\w+Db$/" }],
+      errors: [{ messageId: "enforceDeleteWithWhere" }],
+    },
+
+    // Raw SQL
+    {
+      code: "await db.execute(sql`DELETE FROM users`);",
+      errors: [{ messageId: "enforceDeleteWithWhereRaw" }],
+    },
+    {
+      code: `await db.execute(sql\`
+        DELETE FROM sessions WHERE expires_at < now();
+        DELETE FROM \${tokens} -- WHERE expired
+      \`);`,
+      errors: [{ messageId: "enforceDeleteWithWhereRaw" }],
+    },
+    {
+      code: "await db.execute(sql`WITH stale AS (SELECT id FROM users WHERE deleted) DELETE FROM \"Users\"`);",
+      errors: [{ messageId: "enforceDeleteWithWhereRaw" }],
+    },
+    {
+      code: "await db.execute(sql`DELETE FROM ${table} RETURNING ${columns}`);",
+      errors: [{ messageId: "enforceDeleteWithWhereRaw" }],
+    },
   ],
-});
\ No newline at end of file
+});
+const typedRuleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+      projectService: {
+        allowDefaultProject: ["*.ts"],
+        defaultProject: "../tsconfig.json",
+      },
+      tsconfigRootDir: __dirname,
+    },
+  },
+});
+
+const drizzleTypes = `
+  declare class PgDatabase { delete(table: unknown): { where(condition: unknown): unknown } }
+  declare class NodePgDatabase<TSchema> extends PgDatabase { schema: TSchema }
+  declare const db: NodePgDatabase<{}> & { $client: unknown };
+  declare const users: unknown;
+`;
+
+typedRuleTester.run("enforce-delete-with-where (type-aware)", myRule, {
+  valid: [
+    `${drizzleTypes}
+    const cache = new Map<string, number>();
+    cache.delete("key");`,
+    `${drizzleTypes}
+    const ids = new Set<string>();
+    ids.delete("id");`,
+    {
+      code: `${drizzleTypes}
+      const database = new Map<string, number>();
+      database.delete("key");`,
+      options: [{ drizzleObjectName: "database" }],
+    },
+  ],
+  invalid: [
+    {
+      code: `${drizzleTypes}
+      db.delete(users);`,
+      errors: [{ messageId: "enforceDeleteWithWhere" }],
+    },
+    {
+      code: `${drizzleTypes}
+      const anyDb: any = db;
+      anyDb.delete(users);`,
+      errors: [{ messageId: "enforceDeleteWithWhere" }],
+    },
+  ],
+});
@@ -0,0 +1,7 @@
+-- Custom SQL migration file, put your code below! --
+ALTER TABLE "users" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "users_owner" ON "users" TO authenticated USING (id = auth.uid());--> statement-breakpoint
+ALTER TABLE "sessions" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "payments" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "payments_owner" ON "payments" TO authenticated USING (user_id = auth.uid());--> statement-breakpoint
+ALTER TABLE "payments" DISABLE ROW LEVEL SECURITY;
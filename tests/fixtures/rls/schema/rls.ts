@@ -0,0 +1,14 @@
+import { sql } from "drizzle-orm";
+import { pgPolicy } from "drizzle-orm/pg-core";
+import { authenticatedRole } from "drizzle-orm/supabase";
+import { accounts as accountsTable } from "./tables";
+
+export const profilesRls = sql`
+  ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+  CREATE POLICY profiles_owner ON profiles TO authenticated USING (user_id = auth.uid());
+`;
+
+export const accountsOwner = pgPolicy("accounts_owner", {
+  to: authenticatedRole,
+  using: sql`owner_id = auth.uid()`,
+}).link(accountsTable);
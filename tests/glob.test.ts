@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { findFiles, globToRegExp, toPosixPath } from "../src/utils/glob";
+
+const fs = require("fs");
+const cwd = toPosixPath(__dirname).replace(/\/tests$/, "");
+
+describe("globToRegExp", () => {
+  it("matches any number of directories with **/", () => {
+    const matcher = globToRegExp("/repo/src/**/rls.ts");
+    expect(matcher.test("/repo/src/rls.ts")).toBe(true);
+    expect(matcher.test("/repo/src/db/schema/rls.ts")).toBe(true);
+    expect(matcher.test("/repo/lib/rls.ts")).toBe(false);
+  });
+
+  it("keeps * and ? within one directory", () => {
+    expect(globToRegExp("/repo/*.sql").test("/repo/0001_init.sql")).toBe(true);
+    expect(globToRegExp("/repo/*.sql").test("/repo/drizzle/0001_init.sql")).toBe(false);
+    expect(globToRegExp("/repo/000?.sql").test("/repo/0001.sql")).toBe(true);
+    expect(globToRegExp("/repo/000?.sql").test("/repo/00012.sql")).toBe(false);
+    expect(globToRegExp("/repo/?.sql").test("/repo//.sql")).toBe(false);
+  });
+
+  it("matches alternatives in {a,b}", () => {
+    const matcher = globToRegExp("/repo/db/*.{ts,sql}");
+    expect(matcher.test("/repo/db/rls.ts")).toBe(true);
+    expect(matcher.test("/repo/db/0001.sql")).toBe(true);
+    expect(matcher.test("/repo/db/rls.js")).toBe(false);
+  });
+
+  it("treats escaped and regular expression characters literally", () => {
+    expect(globToRegExp("/repo/\\*.sql").test("/repo/*.sql")).toBe(true);
+    expect(globToRegExp("/repo/\\*.sql").test("/repo/a.sql")).toBe(false);
+    expect(globToRegExp("/repo/(v1)+.sql").test("/repo/(v1)+.sql")).toBe(true);
+    expect(globToRegExp("/repo/a.sql").test("/repo/abSql")).toBe(false);
+  });
+
+  it("matches absolute paths, with Windows drives", () => {
+    expect(globToRegExp("C:/repo/**/*.sql").test("C:/repo/drizzle/0001.sql")).toBe(true);
+    expect(globToRegExp("/repo/**/*.sql").test("/other/repo/0001.sql")).toBe(false);
+  });
+});
+
+describe("findFiles", () => {
+  it("resolves relative globs against the working directory", () => {
+    expect(findFiles(fs, cwd, ["./tests/fixtures/rls/**/*.{ts,sql}"])).toEqual([
+      `${cwd}/tests/fixtures/rls/migrations/0001_rls.sql`,
+      `${cwd}/tests/fixtures/rls/schema/rls.ts`,
+    ]);
+  });
+
+  it("accepts absolute globs and plain paths", () => {
+    expect(findFiles(fs, "/elsewhere", [`${cwd}/tests/fixtures/rls/*/*.sql`, "tests/fixtures/rls/schema/rls.ts"])).toEqual([
+      "/elsewhere/tests/fixtures/rls/schema/rls.ts",
+      `${cwd}/tests/fixtures/rls/migrations/0001_rls.sql`,
+    ]);
+  });
+
+  it("excludes files matching a negated glob", () => {
+    expect(findFiles(fs, cwd, ["tests/fixtures/rls/**", "!**/*.ts"])).toEqual([
+      `${cwd}/tests/fixtures/rls/migrations/0001_rls.sql`,
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import indexNamingRule from "../src/enforce-index-naming";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+const postgresDefaults = {
+  template: {
+    index: "{table}_{columns}_idx",
+    unique: "{table}_{columns}_key",
+  },
+};
+
+ruleTester.run("enforce-index-naming", indexNamingRule, {
+  valid: [
+    // Default idx_/uq_ pattern, including purpose-based names
+    `const users = pgTable('users', {
+      id: uuid('id'),
+      email: text('email'),
+      status: text('status'),
+    }, (t) => [
+      index('idx_users_email').on(t.email),
+      index('idx_users_recent_active').on(t.status),
+      uniqueIndex('uq_users_email').on(t.email),
+      unique('uq_users_status').on(t.status),
+    ])`,
+
+    // Postgres default names, using the database column names
+    {
+      code: `const users = pgTable('users', {
+        id: uuid('id'),
+        orgId: uuid('org_id'),
+        email: text('email'),
+      }, (t) => [
+        index('users_org_id_email_idx').on(t.orgId, t.email),
+        uniqueIndex('users_email_key').on(t.email),
+        unique('users_org_id_key').on(t.orgId),
+        index('users_email_idx').on(t.email).where(sql\`email is not null\`),
+      ])`,
+      options: [postgresDefaults],
+    },
+
+    // {kind} placeholder
+    {
+      code: `const docs = pgTable('docs', {
+        id: uuid('id'),
+        body: jsonb('body'),
+        status: text('status'),
+      }, (t) => [
+        index('docs_body_gin').using('gin', t.body),
+        index('docs_status_partial').on(t.status).where(sql\`status = 'open'\`),
+        uniqueIndex('docs_status_key').on(t.status),
+      ])`,
+      options: [{ template: "{table}_{columns}_{kind}" }],
+    },
+
+    // Columns are unknown for indexes on SQL expressions
+    {
+      code: `const users = pgTable('users', {
+        email: text('email'),
+      }, (t) => [
+        index('users_lower_email_idx').on(sql\`lower(\${t.email})\`),
+      ])`,
+      options: [postgresDefaults],
+    },
+
+    // Kinds without a template are not checked
+    {
+      code: `const users = pgTable('users', {
+        email: text('email'),
+      }, (t) => [
+        index('anything').on(t.email),
+        uniqueIndex('users_email_key').on(t.email),
+      ])`,
+      options: [{ template: { unique: "{table}_{columns}_key" } }],
+    },
+  ],
+  invalid: [
+    // Missing the idx_ prefix
+    {
+      code: `const users = pgTable('users', {
+        email: text('email'),
+      }, (t) => [
+        index('email_idx').on(t.email),
+      ])`,
+      output: `const users = pgTable('users', {
+        email: text('email'),
+      }, (t) => [
+        index('idx_users_email').on(t.email),
+      ])`,
+      errors: [{ messageId: "invalidIndexName", data: { name: "email_idx" } }],
+    },
+
+    // Wrong prefix for a unique index
+    {
+      code: `const users = pgTable('users', {
+        email: text('email'),
+      }, (t) => ({
+        emailUnique: uniqueIndex('idx_users_email').on(t.email),
+      }))`,
+      output: `const users = pgTable('users', {
+        email: text('email'),
+      }, (t) => ({
+        emailUnique: uniqueIndex('uq_users_email').on(t.email),
+      }))`,
+      errors: [{ messageId: "invalidIndexName", data: { name: "idx_users_email" } }],
+    },
+
+    // Name does not follow the template
+    {
+      code: `const users = pgTable("users", {
+        orgId: uuid("org_id"),
+        email: text("email"),
+      }, (t) => [
+        index("idx_users_org").on(t.orgId, t.email),
+        unique("email_unique").on(t.email),
+      ])`,
+      output: `const users = pgTable("users", {
+        orgId: uuid("org_id"),
+        email: text("email"),
+      }, (t) => [
+        index("users_org_id_email_idx").on(t.orgId, t.email),
+        unique("users_email_key").on(t.email),
+      ])`,
+      options: [postgresDefaults],
+      errors: [
+        {
+          messageId: "indexNameTemplate",
+          data: { name: "idx_users_org", template: "{table}_{columns}_idx" },
+        },
+        {
+          messageId: "indexNameTemplate",
+          data: { name: "email_unique", template: "{table}_{columns}_key" },
+        },
+      ],
+    },
+
+    // Name lists other columns than `.on()`
+    {
+      code: `const users = pgTable('users', {
+        email: text('email'),
+        name: text('name'),
+      }, (t) => [
+        index('users_email_idx').on(t.name),
+      ])`,
+      output: `const users = pgTable('users', {
+        email: text('email'),
+        name: text('name'),
+      }, (t) => [
+        index('users_name_idx').on(t.name),
+      ])`,
+      options: [postgresDefaults],
+      errors: [
+        {
+          messageId: "indexNameColumns",
+          data: { name: "users_email_idx", expected: "users_name_idx" },
+        },
+      ],
+    },
+
+    // Expression indexes still follow the template's shape
+    {
+      code: `const users = pgTable('users', {
+        email: text('email'),
+      }, (t) => [
+        index('lower_email').on(sql\`lower(\${t.email})\`),
+      ])`,
+      output: null,
+      options: [postgresDefaults],
+      errors: [{ messageId: "indexNameTemplate" }],
+    },
+  ],
+});
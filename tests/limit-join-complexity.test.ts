@@ -0,0 +1,130 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import limitJoinComplexityRule from "../src/limit-join-complexity";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+ruleTester.run("limit-join-complexity", limitJoinComplexityRule, {
+  valid: [
+    `await db.select().from(users)
+      .leftJoin(posts, eq(users.id, posts.authorId))
+      .leftJoin(comments, eq(posts.id, comments.postId))`,
+
+    // Relational queries within the budget
+    `await db.query.users.findMany({
+      with: { posts: { with: { comments: true } }, profile: true },
+    })`,
+    "await db.query.users.findMany({ with: { posts: false, comments: undefined, likes: true, tags: true } })",
+
+    // Subqueries are only counted on request
+    `const recent = db.select().from(orders)
+      .leftJoin(users, eq(orders.userId, users.id))
+      .leftJoin(items, eq(items.orderId, orders.id))
+      .as("recent");
+    await db.select().from(recent).leftJoin(stores, eq(stores.id, recent.storeId));`,
+
+    // Weights lower than one
+    {
+      code: `await db.select().from(users)
+        .leftJoin(a, on)
+        .leftJoin(b, on)
+        .leftJoin(c, on)
+        .leftJoin(d, on)`,
+      options: [{ joinWeights: { leftJoin: 0.5 } }],
+    },
+  ],
+  invalid: [
+    {
+      code: `await db.select().from(users)
+        .leftJoin(posts, eq(users.id, posts.authorId))
+        .leftJoin(comments, eq(posts.id, comments.postId))
+        .leftJoin(likes, eq(posts.id, likes.postId))
+        .leftJoin(tags, eq(posts.id, tags.postId))`,
+      errors: [{ messageId: "tooManyJoins", data: { count: "4", max: "3" } }],
+    },
+
+    // A single report on the chain root, for every join type
+    {
+      code: `await db.select().from(users)
+        .crossJoin(regions)
+        .leftJoinLateral(recent, sql\`true\`)
+        .innerJoinLateral(top, sql\`true\`)
+        .rightJoin(teams, eq(users.teamId, teams.id))
+        .fullJoin(orgs, eq(teams.orgId, orgs.id))`,
+      errors: [{ messageId: "tooManyJoins", data: { count: "5", max: "3" }, line: 1, column: 7 }],
+    },
+
+    // Builders continued through a variable
+    {
+      code: `let query = db.select().from(users).leftJoin(a, on).$dynamic();
+      query = query.leftJoin(b, on);
+      await query.leftJoin(c, on).leftJoin(d, on);`,
+      errors: [{ messageId: "tooManyJoins", data: { count: "4", max: "3" } }],
+    },
+
+    {
+      code: `await db.select().from(users)
+        .fullJoin(a, on)
+        .fullJoin(b, on)`,
+      options: [{ joinWeights: { fullJoin: 2 } }],
+      errors: [{ messageId: "tooManyWeightedJoins", data: { count: "2", weight: "4", max: "3" } }],
+    },
+
+    // Subqueries and CTEs
+    {
+      code: `const recent = db.select().from(orders)
+        .leftJoin(users, eq(orders.userId, users.id))
+        .leftJoin(items, eq(items.orderId, orders.id))
+        .as("recent");
+      await db.select().from(recent).leftJoin(stores, eq(stores.id, recent.storeId)).leftJoin(regions, on);`,
+      options: [{ countSubqueries: true }],
+      errors: [{ messageId: "tooManyJoins", data: { count: "4", max: "3" }, line: 5 }],
+    },
+    {
+      code: `const top = db.$with("top").as((qb) => qb.select().from(users).innerJoin(scores, on).innerJoin(teams, on));
+      await db.with(top).select().from(top).leftJoin(regions, on).leftJoin(orgs, on);`,
+      options: [{ countSubqueries: true }],
+      errors: [{ messageId: "tooManyJoins", data: { count: "4", max: "3" }, line: 2 }],
+    },
+
+    // Depth and breadth both count toward the budget
+    {
+      code: `await db.query.users.findMany({
+        columns: { id: true },
+        with: {
+          profile: true,
+          posts: {
+            with: {
+              comments: { with: { author: true } },
+            },
+          },
+        },
+      })`,
+      errors: [
+        {
+          messageId: "tooManyRelations",
+          data: { count: "4", max: "3", relation: "posts.comments.author" },
+        },
+      ],
+    },
+    {
+      code: "await db.query.users.findFirst({ with: { posts: true, profile: true } })",
+      options: [{ maxJoins: 1 }],
+      errors: [
+        {
+          messageId: "tooManyRelations",
+          data: { count: "2", max: "1", relation: "profile" },
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,162 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import maxIdentifierLengthRule from "../src/max-identifier-length";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+// 64 bytes
+const longName = "a".repeat(64);
+const truncated = "a".repeat(63);
+
+ruleTester.run("max-identifier-length", maxIdentifierLengthRule, {
+  valid: [
+    `const users = pgTable("users", {
+      id: uuid("id"),
+      email: text("email").unique(),
+    }, (t) => [
+      index("${truncated}").on(t.email),
+    ])`,
+
+    // 31 two-byte characters and one ASCII character are exactly 63 bytes
+    `const users = pgTable("${"é".repeat(31)}x", {
+      id: uuid("id"),
+    })`,
+
+    // Configured limit
+    {
+      code: `const users = pgTable("${longName}", {
+        id: uuid("id"),
+      })`,
+      options: [{ maxBytes: 100 }],
+    },
+  ],
+  invalid: [
+    // Table, column, index, constraint, enum, view and policy names
+    {
+      code: `const status = pgEnum("status_${longName}", ["a"]);
+      const users = pgTable("users_${longName}", {
+        id: uuid("id_${longName}"),
+      }, (t) => [
+        index("idx_${longName}").on(t.id),
+        check("check_${longName}", sql\`true\`),
+        pgPolicy("policy_${longName}", { for: "select" }),
+      ]);
+      const activeUsers = pgView("view_${longName}").as((qb) => qb.select().from(users));`,
+      errors: [
+        {
+          messageId: "identifierTooLong",
+          data: {
+            kind: "Enum",
+            name: `status_${longName}`,
+            bytes: 71,
+            maxBytes: 63,
+            truncated: `status_${"a".repeat(56)}`,
+          },
+        },
+        { messageId: "identifierTooLong", line: 2 },
+        { messageId: "identifierTooLong", line: 3 },
+        { messageId: "identifierTooLong", line: 5 },
+        { messageId: "identifierTooLong", line: 6 },
+        { messageId: "identifierTooLong", line: 7 },
+        { messageId: "identifierTooLong", line: 9 },
+      ],
+    },
+
+    // The same long column name in two tables does not collide
+    {
+      code: `const a = pgTable("a", { ${longName}: text() });
+      const b = pgTable("b", { ${longName}: text() });`,
+      errors: [{ messageId: "identifierTooLong" }, { messageId: "identifierTooLong" }],
+    },
+
+    // Multi-byte characters count by their UTF-8 length
+    {
+      code: `const users = pgTable("${"é".repeat(32)}", {
+        id: uuid("id"),
+      })`,
+      errors: [
+        {
+          messageId: "identifierTooLong",
+          data: {
+            kind: "Table",
+            name: "é".repeat(32),
+            bytes: 64,
+            maxBytes: 63,
+            truncated: "é".repeat(31),
+          },
+        },
+      ],
+    },
+
+    // Names Drizzle generates for unnamed foreign keys and unique constraints
+    {
+      code: `const organization_memberships = pgTable("organization_memberships", {
+        id: uuid("id").primaryKey(),
+      });
+      const organization_membership_invitations = pgTable("organization_membership_invitations", {
+        membershipId: uuid("membership_id").references(() => organization_memberships.id),
+        invitedEmail: text("invited_email_address").unique(),
+      }, (t) => [
+        foreignKey({ columns: [t.membershipId], foreignColumns: [organization_memberships.id] }),
+      ]);`,
+      errors: [
+        {
+          messageId: "generatedNameTooLong",
+          data: {
+            kind: "foreign key",
+            name: "organization_membership_invitations_membership_id_organization_memberships_id_fk",
+            bytes: 80,
+            maxBytes: 63,
+            truncated: "organization_membership_invitations_membership_id_organization_",
+          },
+        },
+        { messageId: "generatedNameTooLong", line: 6 },
+        { messageId: "generatedNameTooLong", line: 8 },
+      ],
+    },
+
+    // Long index names that truncate to the same string
+    {
+      code: `const users = pgTable("users", {
+        a: text("a"),
+        b: text("b"),
+      }, (t) => [
+        index("${longName}_a").on(t.a),
+        index("${longName}_b").on(t.b),
+      ])`,
+      errors: [
+        { messageId: "identifierTooLong" },
+        {
+          messageId: "truncatedCollision",
+          data: { name: `${longName}_b`, other: `${longName}_a`, truncated, kind: "index" },
+        },
+      ],
+    },
+
+    // A long name truncated to a name that is exactly at the limit, declared later
+    {
+      code: `const users = pgTable("users", {
+        a: text("a"),
+        b: text("b"),
+      }, (t) => [
+        index("${longName}").on(t.a),
+        index("${truncated}").on(t.b),
+      ])`,
+      errors: [
+        {
+          messageId: "truncatedCollision",
+          data: { name: longName, other: truncated, truncated, kind: "index" },
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,91 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import noFloatingQueryRule from "../src/no-floating-query";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+ruleTester.run("no-floating-query", noFloatingQueryRule, {
+  valid: [
+    // Awaited, returned or executed
+    "await db.update(users).set({ name: 'a' }).where(eq(users.id, 1));",
+    "async function f() { return db.delete(users).where(eq(users.id, 1)); }",
+    "const f = () => db.select().from(users);",
+    "db.insert(users).values({ name: 'a' }).execute();",
+    "db.insert(users).values({ name: 'a' }).then(() => done());",
+    "db.select().from(users).all();",
+
+    // Assigned, passed on or explicitly ignored
+    "const query = db.select().from(users).$dynamic();",
+    "queries.push(db.delete(sessions).where(lt(sessions.expiresAt, now)));",
+    "void db.insert(auditLog).values({ event: 'login' });",
+    "await Promise.all([db.insert(a).values(x), db.insert(b).values(y)]);",
+
+    // Not a query builder
+    "cache.delete(key);",
+    "selection.select();",
+    {
+      code: "store.insert(users).values({ name: 'a' });",
+      options: [{ drizzleObjectName: "db" }],
+    },
+  ],
+  invalid: [
+    {
+      code: `async function rename(id, name) {
+        db.update(users).set({ name }).where(eq(users.id, id));
+      }`,
+      errors: [
+        {
+          messageId: "noFloatingQuery",
+          data: { method: "update" },
+          suggestions: [
+            {
+              messageId: "addAwait",
+              output: `async function rename(id, name) {
+        await db.update(users).set({ name }).where(eq(users.id, id));
+      }`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // No suggestion outside async functions
+    {
+      code: `function log(event) {
+        db.insert(auditLog).values({ event });
+      }`,
+      errors: [{ messageId: "noFloatingQuery", data: { method: "insert" }, suggestions: [] }],
+    },
+
+    // Transaction parameters and configured instances
+    {
+      code: `await db.transaction(async (tx) => {
+        tx.delete(sessions);
+      });`,
+      options: [{ drizzleObjectName: "db" }],
+      errors: [
+        {
+          messageId: "noFloatingQuery",
+          data: { method: "delete" },
+          suggestions: [
+            {
+              messageId: "addAwait",
+              output: `await db.transaction(async (tx) => {
+        await tx.delete(sessions);
+      });`,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,145 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import noOuterDbRule from "../src/no-outer-db-in-transaction";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+ruleTester.run("no-outer-db-in-transaction", noOuterDbRule, {
+  valid: [
+    // Statements go through the transaction
+    `await db.transaction(async (tx) => {
+      await tx.insert(users).values({ name: 'a' });
+      await tx.update(accounts).set({ balance: 0 }).where(eq(accounts.userId, users.id));
+    });`,
+
+    // Outer instance used outside the callback
+    `await db.insert(auditLog).values({ event: 'start' });
+    await db.transaction(async (tx) => {
+      await tx.insert(users).values({ name: 'a' });
+    });`,
+
+    // Savepoint uses its own parameter
+    `await db.transaction(async (tx) => {
+      await tx.transaction(async (sp) => {
+        await sp.delete(sessions).where(eq(sessions.id, id));
+      });
+    });`,
+
+    // Shadowed name refers to another object
+    `await db.transaction(async (tx) => {
+      await Promise.all(items.map((db) => db.save()));
+    });`,
+
+    // Not a configured Drizzle instance
+    {
+      code: `await queue.transaction(async (job) => {
+        await db.insert(jobs).values(job);
+      });`,
+      options: [{ drizzleObjectName: "db" }],
+    },
+  ],
+  invalid: [
+    {
+      code: `await db.transaction(async (tx) => {
+        await tx.insert(users).values({ name: 'a' });
+        await db.insert(accounts).values({ userId: 1 });
+      });`,
+      errors: [
+        {
+          messageId: "noOuterDbInTransaction",
+          data: { name: "db", tx: "tx" },
+          suggestions: [
+            {
+              messageId: "useTransactionObject",
+              data: { name: "db", tx: "tx" },
+              output: `await db.transaction(async (tx) => {
+        await tx.insert(users).values({ name: 'a' });
+        await tx.insert(accounts).values({ userId: 1 });
+      });`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Any parameter name, nested helper functions and relational queries
+    {
+      code: `await this.db.transaction(async (trx) => {
+        await Promise.all(ids.map((id) => this.db.query.users.findFirst({ where: eq(users.id, id) })));
+      });`,
+      errors: [
+        {
+          messageId: "noOuterDbInTransaction",
+          data: { name: "this.db", tx: "trx" },
+          suggestions: [
+            {
+              messageId: "useTransactionObject",
+              data: { name: "this.db", tx: "trx" },
+              output: `await this.db.transaction(async (trx) => {
+        await Promise.all(ids.map((id) => trx.query.users.findFirst({ where: eq(users.id, id) })));
+      });`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Outer transaction used inside a savepoint
+    {
+      code: `await db.transaction(async (tx) => {
+        await tx.transaction(async (sp) => {
+          await tx.delete(sessions).where(eq(sessions.id, id));
+        });
+      });`,
+      errors: [
+        {
+          messageId: "noOuterDbInTransaction",
+          data: { name: "tx", tx: "sp" },
+          suggestions: [
+            {
+              messageId: "useTransactionObject",
+              data: { name: "tx", tx: "sp" },
+              output: `await db.transaction(async (tx) => {
+        await tx.transaction(async (sp) => {
+          await sp.delete(sessions).where(eq(sessions.id, id));
+        });
+      });`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Another configured instance
+    {
+      code: `await db.transaction(async (tx) => {
+        await analyticsDb.insert(events).values({ type: 'signup' });
+      });`,
+      options: [{ drizzleObjectName: ["db", "analyticsDb"] }],
+      errors: [
+        {
+          messageId: "noOuterDbInTransaction",
+          data: { name: "analyticsDb", tx: "tx" },
+          suggestions: [
+            {
+              messageId: "useTransactionObject",
+              data: { name: "analyticsDb", tx: "tx" },
+              output: `await db.transaction(async (tx) => {
+        await tx.insert(events).values({ type: 'signup' });
+      });`,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
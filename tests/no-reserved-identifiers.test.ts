@@ -0,0 +1,173 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import noReservedIdentifiersRule from "../src/no-reserved-identifiers";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+ruleTester.run("no-reserved-identifiers", noReservedIdentifiersRule, {
+  valid: [
+    `const users = pgTable("users", {
+      id: uuid("id"),
+      sender: text("sender"),
+      sortOrder: integer("sort_order"),
+    })`,
+
+    // Keys are not sent to the database
+    `const orders = pgTable("orders", {
+      from: text("sender"),
+      limit: integer("max_count"),
+    })`,
+
+    // Non-reserved keywords are only reported on request
+    `const events = pgTable("events", {
+      date: date("date"),
+      value: integer("value"),
+    })`,
+
+    {
+      code: `const user = pgTable("user", {
+        id: uuid("id"),
+      })`,
+      options: [{ allow: ["user"] }],
+    },
+  ],
+  invalid: [
+    {
+      code: `const user = pgTable("user", {
+        id: uuid("id"),
+      })`,
+      errors: [
+        {
+          messageId: "reservedIdentifier",
+          data: { name: "user", kind: "table" },
+          suggestions: [
+            {
+              messageId: "rename",
+              data: { name: "users" },
+              output: `const user = pgTable("users", {
+        id: uuid("id"),
+      })`,
+            },
+            {
+              messageId: "rename",
+              data: { name: "app_user" },
+              output: `const user = pgTable("app_user", {
+        id: uuid("id"),
+      })`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Names derived from keys, compared case-insensitively
+    {
+      code: `const messages = pgTable('messages', {
+        from: text(),
+        Limit: integer('Limit'),
+      })`,
+      errors: [
+        {
+          messageId: "reservedIdentifier",
+          data: { name: "from", kind: "column" },
+          suggestions: [
+            {
+              messageId: "rename",
+              data: { name: "sender" },
+              output: `const messages = pgTable('messages', {
+        from: text("sender"),
+        Limit: integer('Limit'),
+      })`,
+            },
+            {
+              messageId: "rename",
+              data: { name: "from_address" },
+              output: `const messages = pgTable('messages', {
+        from: text("from_address"),
+        Limit: integer('Limit'),
+      })`,
+            },
+          ],
+        },
+        {
+          messageId: "reservedIdentifier",
+          data: { name: "Limit", kind: "column" },
+          suggestions: [
+            {
+              messageId: "rename",
+              data: { name: "max_count" },
+              output: `const messages = pgTable('messages', {
+        from: text(),
+        Limit: integer('max_count'),
+      })`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Enums and views, with plural names as the fallback
+    {
+      code: `const analyze = pgEnum("analyze", ["a"]);
+      const grants = pgView("grant").as((qb) => qb.select().from(users));`,
+      errors: [
+        {
+          messageId: "reservedIdentifier",
+          data: { name: "analyze", kind: "enum" },
+          suggestions: [
+            {
+              messageId: "rename",
+              data: { name: "analyzes" },
+              output: `const analyze = pgEnum("analyzes", ["a"]);
+      const grants = pgView("grant").as((qb) => qb.select().from(users));`,
+            },
+          ],
+        },
+        {
+          messageId: "reservedIdentifier",
+          data: { name: "grant", kind: "view" },
+          suggestions: [
+            {
+              messageId: "rename",
+              data: { name: "grants" },
+              output: `const analyze = pgEnum("analyze", ["a"]);
+      const grants = pgView("grants").as((qb) => qb.select().from(users));`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Non-reserved keywords
+    {
+      code: `const events = pgTable("events", {
+        position: integer("position"),
+      })`,
+      options: [{ includeNonReserved: true }],
+      errors: [
+        {
+          messageId: "nonReservedIdentifier",
+          data: { name: "position", kind: "column" },
+          suggestions: [
+            {
+              messageId: "rename",
+              data: { name: "sort_position" },
+              output: `const events = pgTable("events", {
+        position: integer("sort_position"),
+      })`,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
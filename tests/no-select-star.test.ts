@@ -0,0 +1,91 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import noSelectStarRule from "../src/no-select-star";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+ruleTester.run("no-select-star", noSelectStarRule, {
+  valid: [
+    // Explicit column selection
+    "await db.select({ id: users.id, email: users.email }).from(users)",
+
+    // select() without a query method is not a query
+    "const selection = picker.select()",
+
+    // Not a configured Drizzle instance
+    {
+      code: "await dom.select().from(nodes)",
+      options: [{ drizzleObjectName: "db" }],
+    },
+
+    // Raw SQL listing its columns
+    "await db.execute(sql`SELECT id, total * 1.2 AS gross, count(*) FROM orders -- SELECT * FROM x`)",
+    "sql`SELECT \"*\" FROM weird`",
+    "sql`SELECT id FROM users u WHERE EXISTS (SELECT * FROM orders o WHERE o.user_id = u.id) AND NOT EXISTS (SELECT * FROM bans b WHERE b.user_id = u.id)`",
+
+    // Relational queries selecting their columns
+    "await db.query.users.findMany({ columns: { id: true, email: true } })",
+    "await db.query.users.findFirst({ columns: { password: false }, with: { posts: true } })",
+    "await db.query.users.findMany(queryOptions)",
+    {
+      code: "await db.query.users.findMany()",
+      options: [{ relationalColumns: "off" }],
+    },
+  ],
+  invalid: [
+    {
+      code: "await db.select().from(users)",
+      errors: [{ messageId: "noSelectStar" }],
+    },
+    {
+      code: "await db.select().from(users).where(eq(users.id, id)).limit(1)",
+      errors: [{ messageId: "noSelectStar" }],
+    },
+
+    // Transaction callback parameter, whatever its name
+    {
+      code: `await db.transaction(async (trx) => {
+        await trx.select().from(orders);
+      });`,
+      options: [{ drizzleObjectName: "db" }],
+      errors: [{ messageId: "noSelectStar" }],
+    },
+
+    // Raw SQL
+    {
+      code: "await db.execute(sql`SELECT * FROM orders`)",
+      errors: [{ messageId: "noSelectStarRaw" }],
+    },
+    {
+      code: "await db.execute(sql`SELECT o.id FROM orders o WHERE o.user_id IN (SELECT DISTINCT u.* FROM users u)`)",
+      errors: [{ messageId: "noSelectStarRaw" }],
+    },
+
+    // Relational queries
+    {
+      code: "await db.query.users.findMany({ where: eq(users.active, true) })",
+      errors: [{ messageId: "noRelationalColumns", data: { name: "users" } }],
+    },
+    {
+      code: "await db.query.users.findFirst()",
+      errors: [{ messageId: "noRelationalColumns", data: { name: "users" } }],
+    },
+    {
+      code: `await db.query.users.findMany({
+        columns: { id: true },
+        with: { posts: { columns: { title: true }, with: { comments: true } } },
+      })`,
+      options: [{ relationalColumns: "all" }],
+      errors: [{ messageId: "noRelationalColumns", data: { name: "posts.comments" } }],
+    },
+  ],
+});
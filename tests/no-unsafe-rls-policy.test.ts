@@ -0,0 +1,208 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import noUnsafeRLSPolicyRule from "../src/no-unsafe-rls-policy";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+ruleTester.run("no-unsafe-rls-policy", noUnsafeRLSPolicyRule, {
+  valid: [
+    // One policy per command, each limited to the current user
+    `import { pgPolicy, pgTable, uuid } from 'drizzle-orm/pg-core';
+    import { authenticatedRole } from 'drizzle-orm/supabase';
+    export const users = pgTable('users', {
+      id: uuid('id'),
+    }, (t) => [
+      pgPolicy('users_select', { for: 'select', to: authenticatedRole, using: sql\`\${t.id} = auth.uid()\` }),
+      pgPolicy('users_insert', { for: 'insert', to: authenticatedRole, withCheck: sql\`\${t.id} = auth.uid()\` }),
+      pgPolicy('users_update', {
+        for: 'update',
+        to: authenticatedRole,
+        using: sql\`\${t.id} = auth.uid()\`,
+        withCheck: sql\`\${t.id} = auth.uid()\`,
+      }),
+      pgPolicy('users_delete', { for: 'delete', to: authenticatedRole, using: sql\`\${t.id} = auth.uid()\` }),
+    ]);`,
+
+    // Tables that are not sensitive are not checked
+    `import { pgPolicy, pgTable, uuid } from 'drizzle-orm/pg-core';
+    export const countries = pgTable('countries', {
+      id: uuid('id'),
+    }, () => [
+      pgPolicy('countries_read', { for: 'select', to: 'public', using: sql\`true\` }),
+    ]);`,
+
+    // Raw SQL, with FOR ALL covering every command
+    `sql\`
+      CREATE POLICY accounts_owner ON accounts AS PERMISSIVE FOR ALL TO authenticated
+        USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+    \`;`,
+
+    // crudPolicy with a role and real predicates
+    `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+    import { crudPolicy, authenticatedRole, authUid } from 'drizzle-orm/neon';
+    export const profiles = pgTable('profiles', {
+      userId: uuid('user_id'),
+    }, (t) => [
+      crudPolicy({ role: authenticatedRole, read: authUid(t.userId), modify: authUid(t.userId) }),
+    ]);`,
+
+    // Restrictive policy covering every permissive one
+    `sql\`
+      CREATE POLICY orders_tenant ON orders AS RESTRICTIVE TO authenticated
+        USING (tenant_id = current_setting('app.tenant')::uuid);
+      CREATE POLICY orders_owner ON orders TO authenticated
+        USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+    \`;`,
+
+    // Sensitive columns can be turned off like in require-rls-enabled
+    {
+      code: `import { pgPolicy, pgTable, text } from 'drizzle-orm/pg-core';
+      export const contacts = pgTable('contacts', {
+        email: text('email'),
+      }, () => [
+        pgPolicy('contacts_read', { for: 'select', to: 'public', using: sql\`true\` }),
+      ]);`,
+      options: [{ sensitiveColumns: [] }],
+    },
+
+    // Commands left out of requiredCommands may stay denied
+    {
+      code: `sql\`CREATE POLICY sessions_select ON sessions FOR SELECT TO authenticated USING (user_id = auth.uid())\`;`,
+      options: [{ requiredCommands: ["select"] }],
+    },
+  ],
+  invalid: [
+    // Always-true predicates
+    {
+      code: `import { pgPolicy, pgTable, uuid } from 'drizzle-orm/pg-core';
+      export const users = pgTable('users', {
+        id: uuid('id'),
+      }, () => [
+        pgPolicy('users_all', { to: 'authenticated', using: sql\`true\`, withCheck: sql\`(1 = 1)\` }),
+      ]);`,
+      errors: [
+        { messageId: "alwaysTrue", data: { policy: "users_all", table: "users", clause: "USING" } },
+        { messageId: "alwaysTrue", data: { policy: "users_all", table: "users", clause: "WITH CHECK" } },
+      ],
+    },
+
+    // PUBLIC, explicit or implied
+    {
+      code: `import { pgPolicy, pgTable, uuid } from 'drizzle-orm/pg-core';
+      export const accounts = pgTable('accounts', {
+        id: uuid('id'),
+      }, (t) => [
+        pgPolicy('accounts_read', { for: 'select', to: 'public', using: sql\`\${t.id} = auth.uid()\` }),
+        pgPolicy('accounts_write', { for: 'all', using: sql\`\${t.id} = auth.uid()\` }),
+      ]);`,
+      errors: [
+        { messageId: "publicRole", data: { policy: "accounts_read", table: "accounts" } },
+        { messageId: "publicRole", data: { policy: "accounts_write", table: "accounts" } },
+      ],
+    },
+
+    // INSERT and UPDATE without WITH CHECK
+    {
+      code: `sql\`
+        CREATE POLICY payments_select ON payments FOR SELECT TO authenticated USING (user_id = auth.uid());
+        CREATE POLICY payments_insert ON payments FOR INSERT TO authenticated;
+        CREATE POLICY payments_update ON payments FOR UPDATE TO authenticated USING (user_id = auth.uid());
+        CREATE POLICY payments_delete ON payments FOR DELETE TO authenticated USING (user_id = auth.uid());
+      \`;`,
+      errors: [
+        { messageId: "missingWithCheck", data: { policy: "payments_insert", table: "payments", command: "INSERT" } },
+        { messageId: "missingWithCheck", data: { policy: "payments_update", table: "payments", command: "UPDATE" } },
+      ],
+    },
+
+    // A permissive policy for a role the restrictive policy does not cover
+    {
+      code: `import { pgPolicy, pgTable, uuid } from 'drizzle-orm/pg-core';
+      import { anonRole, authenticatedRole } from 'drizzle-orm/supabase';
+      export const orders = pgTable('orders', {
+        tenantId: uuid('tenant_id'),
+      }, (t) => [
+        pgPolicy('orders_tenant', { as: 'restrictive', to: authenticatedRole, using: sql\`\${t.tenantId} = auth.tenant()\` }),
+        pgPolicy('orders_member', { to: authenticatedRole, using: sql\`\${t.tenantId} = auth.tenant()\` }),
+        pgPolicy('orders_preview', { as: 'permissive', for: 'select', to: anonRole, using: sql\`\${t.tenantId} = auth.tenant()\` }),
+      ]);`,
+      errors: [
+        { messageId: "widensRestrictive", data: { policy: "orders_preview", table: "orders", commands: "SELECT" } },
+      ],
+    },
+
+    // Tables are also sensitive by their columns
+    {
+      code: `import { pgPolicy, pgTable, text } from 'drizzle-orm/pg-core';
+      export const contacts = pgTable('contacts', {
+        email: text('email'),
+      }, () => [
+        pgPolicy('contacts_read', { for: 'select', to: 'public', using: sql\`true\` }),
+      ]);`,
+      options: [{ requiredCommands: ["select"] }],
+      errors: [
+        { messageId: "publicRole", data: { policy: "contacts_read", table: "contacts" } },
+        { messageId: "alwaysTrue", data: { policy: "contacts_read", table: "contacts", clause: "USING" } },
+      ],
+    },
+
+    // Policies on an interpolated table
+    {
+      code: `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+      export const payments = pgTable('payments', {
+        id: uuid('id'),
+      });
+      sql\`CREATE POLICY payments_all ON \${payments} TO public USING (id = auth.uid())\`;`,
+      errors: [
+        { messageId: "publicRole", data: { policy: "payments_all", table: "payments" } },
+      ],
+    },
+
+    // Commands without a policy
+    {
+      code: `sql\`CREATE POLICY sessions_select ON auth.sessions FOR SELECT TO authenticated USING (user_id = auth.uid())\`;`,
+      errors: [
+        { messageId: "uncoveredCommands", data: { table: "auth.sessions", commands: "INSERT, UPDATE, DELETE" } },
+      ],
+    },
+
+    // crudPolicy is reported once per problem
+    {
+      code: `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+      import { crudPolicy } from 'drizzle-orm/neon';
+      export const profiles = pgTable('profiles', {
+        userId: uuid('user_id'),
+      }, () => [
+        crudPolicy({ role: 'public', read: true, modify: true }),
+      ]);`,
+      errors: [
+        { messageId: "publicRole", data: { policy: "(unnamed)", table: "profiles" } },
+        { messageId: "alwaysTrue", data: { policy: "(unnamed)", table: "profiles", clause: "USING" } },
+        { messageId: "alwaysTrue", data: { policy: "(unnamed)", table: "profiles", clause: "USING" } },
+      ],
+    },
+
+    // modify: null leaves the writes without a policy
+    {
+      code: `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+      import { crudPolicy, authenticatedRole, authUid } from 'drizzle-orm/neon';
+      export const profiles = pgTable('profiles', {
+        userId: uuid('user_id'),
+      }, (t) => [
+        crudPolicy({ role: authenticatedRole, read: authUid(t.userId), modify: null }),
+      ]);`,
+      errors: [
+        { messageId: "uncoveredCommands", data: { table: "profiles", commands: "INSERT, UPDATE, DELETE" } },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,85 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import noUnsafeSqlRawRule from "../src/no-unsafe-sql-raw";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+ruleTester.run("no-unsafe-sql-raw", noUnsafeSqlRawRule, {
+  valid: [
+    // Static SQL
+    "sql.raw('now()');",
+    "sql.raw(`ORDER BY created_at DESC`);",
+    "sql.raw('LIMIT ' + 10);",
+
+    // Values picked from constants
+    `const direction = input === 'asc' ? 'ASC' : 'DESC';
+    sql.raw(\`ORDER BY created_at \${direction}\`);`,
+    `const SORT_COLUMNS = { newest: 'created_at', name: 'name' } as const;
+    sql.identifier(SORT_COLUMNS[req.query.sort]);`,
+    {
+      code: "sql.raw(`SET search_path TO ${config.schema}`);",
+      options: [{ allowedConstants: ["config.schema"] }],
+    },
+
+    // Parameterised interpolation
+    "sql`SELECT * FROM users WHERE id = ${req.params.id}`;",
+
+    // Another library's sql
+    `import { sql } from "./legacy";
+    sql.raw(userInput);`,
+  ],
+  invalid: [
+    {
+      code: "db.execute(sql.raw(`SELECT * FROM users ORDER BY ${req.query.sort}`));",
+      errors: [
+        {
+          messageId: "unsafeSqlRaw",
+          suggestions: [
+            {
+              messageId: "useSqlTemplate",
+              output: "db.execute(sql`SELECT * FROM users ORDER BY ${req.query.sort}`);",
+            },
+          ],
+        },
+      ],
+    },
+    {
+      code: `import { sql as s } from "drizzle-orm";
+      db.execute(s.raw("SELECT * FROM users WHERE id = '" + id + "'"));`,
+      errors: [
+        {
+          messageId: "unsafeSqlRaw",
+          suggestions: [
+            {
+              messageId: "useSqlTemplate",
+              output: `import { sql as s } from "drizzle-orm";
+      db.execute(s\`SELECT * FROM users WHERE id = \${id}\`);`,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      code: "sql.raw(userInput);",
+      errors: [
+        {
+          messageId: "unsafeSqlRaw",
+          suggestions: [{ messageId: "useSqlTemplate", output: "sql`${userInput}`;" }],
+        },
+      ],
+    },
+    {
+      code: "sql.identifier(req.query.column);",
+      errors: [{ messageId: "unsafeSqlIdentifier" }],
+    },
+  ],
+});
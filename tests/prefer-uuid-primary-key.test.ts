@@ -0,0 +1,287 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import preferUuidRule from "../src/prefer-uuid-primary-key";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+const uuidExpected = "`uuid().defaultRandom()`";
+
+ruleTester.run("prefer-uuid-primary-key", preferUuidRule, {
+  valid: [
+    `const users = pgTable("users", {
+      id: uuid("id").defaultRandom().primaryKey(),
+      age: integer("age"),
+    })`,
+
+    // Keys that reference another table take its ids
+    `const profiles = pgTable("profiles", {
+      userId: integer("user_id").primaryKey().references(() => users.id),
+    })`,
+
+    // Composite keys of foreign keys and natural values
+    `const memberships = pgTable("memberships", {
+      orgId: integer("org_id").references(() => orgs.id),
+      userId: integer("user_id").references(() => users.id),
+      day: date("day"),
+    }, (t) => [
+      primaryKey({ columns: [t.orgId, t.userId, t.day] }),
+    ])`,
+
+    // Other dialects
+    `const users = sqliteTable("users", {
+      id: integer("id").primaryKey(),
+    })`,
+
+    {
+      code: `const events = pgTable("events", {
+        id: uuid("id").$defaultFn(() => uuidv7()).primaryKey(),
+      });
+      const logs = pgTable("logs", {
+        id: uuid("id").default(sql\`uuidv7()\`).primaryKey(),
+      })`,
+      options: [{ strategy: "uuidv7" }],
+    },
+
+    {
+      code: `const events = pgTable("events", {
+        id: bigint("id", { mode: "number" }).generatedAlwaysAsIdentity().primaryKey(),
+      });
+      const tags = pgTable("tags", {
+        id: integer("id").generatedByDefaultAsIdentity().primaryKey(),
+      })`,
+      options: [{ strategy: "identity", highVolumeTables: ["events"] }],
+    },
+
+    {
+      code: `const users = pgTable("users", {
+        id: text("id").$defaultFn(() => createId()).primaryKey(),
+      })`,
+      options: [{ strategy: "text" }],
+    },
+  ],
+  invalid: [
+    // Modifiers are kept and the import is added
+    {
+      code: `import { pgTable, serial, text } from "drizzle-orm/pg-core";
+const users = pgTable("users", {
+  id: serial("id").primaryKey().notNull(),
+  name: text("name"),
+});`,
+      errors: [
+        {
+          messageId: "primaryKeyStrategy",
+          data: { column: "id", tableName: "users", expected: uuidExpected },
+          suggestions: [
+            {
+              messageId: "useStrategy",
+              data: { expected: uuidExpected },
+              output: `import { pgTable, serial, text, uuid } from "drizzle-orm/pg-core";
+const users = pgTable("users", {
+  id: uuid("id").defaultRandom().primaryKey().notNull(),
+  name: text("name"),
+});`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // bigserial, bigint and columns of the callback form
+    {
+      code: `const events = pgTable("events", (t) => ({
+        id: t.bigserial("id", { mode: "number" }).primaryKey(),
+      }));
+      const logs = pgTable("logs", {
+        id: bigint({ mode: "bigint" }).primaryKey(),
+      })`,
+      errors: [
+        {
+          messageId: "primaryKeyStrategy",
+          suggestions: [
+            {
+              messageId: "useStrategy",
+              output: `const events = pgTable("events", (t) => ({
+        id: t.uuid("id").defaultRandom().primaryKey(),
+      }));
+      const logs = pgTable("logs", {
+        id: bigint({ mode: "bigint" }).primaryKey(),
+      })`,
+            },
+          ],
+        },
+        {
+          messageId: "primaryKeyStrategy",
+          suggestions: [
+            {
+              messageId: "useStrategy",
+              output: `const events = pgTable("events", (t) => ({
+        id: t.bigserial("id", { mode: "number" }).primaryKey(),
+      }));
+      const logs = pgTable("logs", {
+        id: uuid().defaultRandom().primaryKey(),
+      })`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // A uuid without a generator, and the generated part of a composite key
+    {
+      code: `const users = pgTable("users", {
+        id: uuid("id").primaryKey(),
+      });
+      const versions = pgTable("versions", {
+        docId: uuid("doc_id").references(() => docs.id),
+        version: serial("version"),
+      }, (t) => [
+        primaryKey({ columns: [t.docId, t.version] }),
+      ])`,
+      errors: [
+        {
+          messageId: "primaryKeyStrategy",
+          data: { column: "id", tableName: "users", expected: uuidExpected },
+          suggestions: [
+            {
+              messageId: "useStrategy",
+              output: `const users = pgTable("users", {
+        id: uuid("id").defaultRandom().primaryKey(),
+      });
+      const versions = pgTable("versions", {
+        docId: uuid("doc_id").references(() => docs.id),
+        version: serial("version"),
+      }, (t) => [
+        primaryKey({ columns: [t.docId, t.version] }),
+      ])`,
+            },
+          ],
+        },
+        {
+          messageId: "primaryKeyStrategy",
+          data: { column: "version", tableName: "versions", expected: uuidExpected },
+          suggestions: [
+            {
+              messageId: "useStrategy",
+              output: `const users = pgTable("users", {
+        id: uuid("id").primaryKey(),
+      });
+      const versions = pgTable("versions", {
+        docId: uuid("doc_id").references(() => docs.id),
+        version: uuid("version").defaultRandom(),
+      }, (t) => [
+        primaryKey({ columns: [t.docId, t.version] }),
+      ])`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Identity columns instead of serial
+    {
+      code: `const users = pgTable("users", {
+        id: serial("id").primaryKey(),
+      })`,
+      options: [{ strategy: "identity" }],
+      errors: [
+        {
+          messageId: "primaryKeyStrategy",
+          suggestions: [
+            {
+              messageId: "useStrategy",
+              output: `const users = pgTable("users", {
+        id: bigint("id", { mode: "number" }).generatedAlwaysAsIdentity().primaryKey(),
+      })`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // uuid v7 replaces defaultRandom() and imports the generator
+    {
+      code: `import { pgTable, uuid } from "drizzle-orm/pg-core";
+const users = pgTable("users", {
+  id: uuid("id").defaultRandom().primaryKey(),
+});`,
+      options: [{ strategy: "uuidv7" }],
+      errors: [
+        {
+          messageId: "primaryKeyStrategy",
+          suggestions: [
+            {
+              messageId: "useStrategy",
+              output: `import { pgTable, uuid } from "drizzle-orm/pg-core";
+import { uuidv7 } from "uuidv7";
+const users = pgTable("users", {
+  id: uuid("id").$defaultFn(() => uuidv7()).primaryKey(),
+});`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Text ids with a custom generator
+    {
+      code: `import { pgTable, uuid } from "drizzle-orm/pg-core";
+import { nanoid } from "nanoid";
+const users = pgTable("users", {
+  id: uuid("id").defaultRandom().primaryKey(),
+});`,
+      options: [{ strategy: "text", idGenerator: "nanoid", idGeneratorSource: "nanoid" }],
+      errors: [
+        {
+          messageId: "primaryKeyStrategy",
+          data: {
+            column: "id",
+            tableName: "users",
+            expected: "`text().$defaultFn(() => nanoid())`",
+          },
+          suggestions: [
+            {
+              messageId: "useStrategy",
+              output: `import { pgTable, uuid, text } from "drizzle-orm/pg-core";
+import { nanoid } from "nanoid";
+const users = pgTable("users", {
+  id: text("id").$defaultFn(() => nanoid()).primaryKey(),
+});`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // 32-bit keys on high-volume tables
+    {
+      code: `const events = pgTable("events", {
+        id: integer("id").generatedAlwaysAsIdentity().primaryKey(),
+      })`,
+      options: [{ strategy: "identity", highVolumeTables: ["events"] }],
+      errors: [
+        {
+          messageId: "highVolumeIntegerKey",
+          data: { column: "id", tableName: "events" },
+          suggestions: [
+            {
+              messageId: "useBigint",
+              data: { builder: "bigint" },
+              output: `const events = pgTable("events", {
+        id: bigint("id", { mode: "number" }).generatedAlwaysAsIdentity().primaryKey(),
+      })`,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
@@ -34,6 +34,161 @@ ruleTester.run("require-rls-enabled", requireRLSRule, {
       })`,
       options: [{ sensitiveTables: ["users", "accounts"] }],
     },
+
+    // Schema-qualified table with RLS and a policy
+    `const auth = pgSchema('auth');
+    const users = auth.table('users', {
+      id: uuid('id'),
+    });
+    sql(\`ALTER TABLE auth.users ENABLE ROW LEVEL SECURITY\`);
+    sql(\`CREATE POLICY users_select ON auth.users FOR SELECT USING (true)\`);`,
+
+    // pgTable imported from another module is not a Drizzle table
+    `import { pgTable } from './legacy-orm';
+    const users = pgTable('users', {
+      id: uuid('id'),
+    })`,
+
+    // Tagged template with quoted names and several statements
+    `const users = pgTable('users', {
+      id: uuid('id'),
+    });
+    await db.execute(sql\`
+      /* enable RLS */
+      ALTER TABLE "public"."users" ENABLE ROW LEVEL SECURITY;
+      CREATE POLICY "Users can read themselves" ON public.users FOR SELECT USING (id = auth.uid());
+    \`);`,
+
+    // Drizzle's RLS API: policies in the extras callback enable RLS
+    `import { pgPolicy, pgTable, uuid } from 'drizzle-orm/pg-core';
+    import { authenticatedRole } from 'drizzle-orm/supabase';
+    export const users = pgTable.withRLS('users', {
+      id: uuid('id'),
+    }, (t) => [
+      pgPolicy('users_select', { for: 'select', to: authenticatedRole, using: sql\`\${t.id} = auth.uid()\` }),
+    ]);
+    export const accounts = pgTable('accounts', {
+      id: uuid('id'),
+    }, (t) => ({
+      p: pgPolicy('accounts_select', { for: 'select', to: authenticatedRole }),
+    })).enableRLS();
+    export const sessions = pgTable('sessions', {
+      id: uuid('id'),
+    }, () => [
+      pgPolicy('sessions_select', { for: 'select' }),
+    ]);`,
+
+    // crudPolicy from drizzle-orm/neon, spread or not
+    `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+    import { crudPolicy, authenticatedRole, authUid } from 'drizzle-orm/neon';
+    export const profiles = pgTable('profiles', {
+      userId: uuid('user_id'),
+    }, (t) => [
+      crudPolicy({ role: authenticatedRole, read: authUid(t.userId), modify: authUid(t.userId) }),
+    ]);
+    export const payments = pgTable.withRLS('payments', {
+      userId: uuid('user_id'),
+    }, (t) => [
+      ...crudPolicy({ role: authenticatedRole, read: true, modify: false }),
+    ]);`,
+
+    // Standalone policies linked to a table, in a schema
+    `import { pgPolicy, pgSchema, uuid } from 'drizzle-orm/pg-core';
+    const auth = pgSchema('auth');
+    export const users = auth.table.withRLS('users', {
+      id: uuid('id'),
+    });
+    export const usersSelect = pgPolicy('users_select', { for: 'select' }).link(users);`,
+
+    // IF EXISTS, ONLY, quoted names and several actions and statements per template
+    `const users = pgTable('users', {
+      id: uuid('id'),
+    });
+    const accounts = pgTable('Accounts', {
+      id: uuid('id'),
+    });
+    sql\`
+      ALTER TABLE IF EXISTS ONLY "public"."users" DISABLE ROW LEVEL SECURITY;
+      ALTER TABLE IF EXISTS ONLY "public"."users" ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+      ALTER TABLE "Accounts" ENABLE ROW LEVEL SECURITY;
+      CREATE POLICY users_select ON users FOR SELECT USING (true);
+      CREATE POLICY accounts_select ON "Accounts" FOR SELECT USING (true);
+    \`;`,
+
+    // Tables owned by the application role force RLS
+    {
+      code: `const users = pgTable('users', {
+        id: uuid('id'),
+      });
+      sql\`ALTER TABLE users OWNER TO app_user\`;
+      sql\`ALTER TABLE users ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY\`;
+      sql\`CREATE POLICY users_select ON users FOR SELECT USING (true)\`;`,
+      options: [{ appRoles: ["app_user"] }],
+    },
+
+    // Columns match whole words of their database name
+    `const assets = pgTable('assets', {
+      id: uuid('id'),
+      adobeId: text('adobe_id'),
+      emailTemplate: text('template'),
+      metadata: text('metadata'),
+    })`,
+
+    // Column sensitivity can be turned off
+    {
+      code: `const customers = pgTable('customers', {
+        id: uuid('id'),
+        email: text('email'),
+      })`,
+      options: [{ sensitiveColumns: [] }],
+    },
+
+    // Tables opted out with a reason
+    `// rls-exempt: public directory, every address is meant to be listed
+    export const user_directory = pgTable('user_directory', {
+      id: uuid('id'),
+      email: text('email'),
+    });
+    /* RLS-EXEMPT: only read by the nightly export job */
+    const customers = pgTable('customers', {
+      email: text('email'),
+    });`,
+    // Tables interpolated into the SQL, resolved through the schema
+    `import { pgSchema, pgTable, uuid } from 'drizzle-orm/pg-core';
+    const auth = pgSchema('auth');
+    export const users = pgTable('users', {
+      id: uuid('id'),
+    });
+    export const sessions = auth.table('sessions', {
+      id: uuid('id'),
+    });
+    sql\`
+      ALTER TABLE \${users} ENABLE ROW LEVEL SECURITY;
+      CREATE POLICY users_select ON \${users} FOR SELECT USING (id = auth.uid());
+      ALTER TABLE \${sessions} ENABLE ROW LEVEL SECURITY;
+      CREATE POLICY sessions_select ON \${sessions} FOR SELECT USING (true);
+    \`;`,
+
+    // RLS and policies from a drizzle-kit migration
+    {
+      code: `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+      export const users = pgTable('users', {
+        id: uuid('id'),
+      });`,
+      options: [{ rlsSources: ["tests/fixtures/rls/migrations/*.sql"] }],
+    },
+
+    // RLS in sql\`...\` and pgPolicy(...).link() in another schema file
+    {
+      code: `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+      export const profiles = pgTable('profiles', {
+        userId: uuid('user_id'),
+      });
+      export const accounts = pgTable('accounts', {
+        ownerId: uuid('owner_id'),
+      });`,
+      options: [{ rlsSources: ["./tests/fixtures/rls/**/*.{ts,sql}"] }],
+    },
   ],
   invalid: [
     // Sensitive table without RLS
@@ -94,6 +249,35 @@ ruleTester.run("require-rls-enabled", requireRLSRule, {
       }],
     },
     
+    // Tables declared through pgSchema().table()
+    {
+      code: `import { pgSchema, uuid } from 'drizzle-orm/pg-core';
+      const auth = pgSchema('auth');
+      export const users = auth.table('users', {
+        id: uuid('id'),
+      });`,
+      errors: [{
+        messageId: "missingRLS",
+        data: { table: "auth.users" }
+      }],
+    },
+
+    // Aliased and namespace imports
+    {
+      code: `import { pgTable as table } from 'drizzle-orm/pg-core';
+      import * as pg from 'drizzle-orm/pg-core';
+      const accounts = table('accounts', {
+        id: pg.uuid('id'),
+      });
+      const sessions = pg.pgTable('sessions', {
+        id: pg.uuid('id'),
+      });`,
+      errors: [
+        { messageId: "missingRLS", data: { table: "accounts" } },
+        { messageId: "missingRLS", data: { table: "sessions" } },
+      ],
+    },
+
     // Auth-related tables
     {
       code: `const auth_sessions = pgTable('auth_sessions', {
@@ -105,5 +289,164 @@ ruleTester.run("require-rls-enabled", requireRLSRule, {
         data: { table: "auth_sessions" }
       }],
     },
+
+    // Commented-out SQL does not enable RLS
+    {
+      code: `const users = pgTable('users', {
+        id: uuid('id'),
+      });
+      sql\`
+        -- ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+        CREATE POLICY users_select ON users FOR SELECT USING (true);
+      \`;`,
+      errors: [{ messageId: "missingRLS", data: { table: "users" } }],
+    },
+
+    // withRLS() and enableRLS() without policies block all access
+    {
+      code: `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+      export const users = pgTable.withRLS('users', {
+        id: uuid('id'),
+      });
+      export const accounts = pgTable('accounts', {
+        id: uuid('id'),
+      }).enableRLS();`,
+      errors: [
+        { messageId: "missingPolicy", data: { table: "users" } },
+        { messageId: "missingPolicy", data: { table: "accounts" } },
+      ],
+    },
+
+    // A policy linked to another table does not count
+    {
+      code: `import { pgPolicy, pgTable, uuid } from 'drizzle-orm/pg-core';
+      export const posts = pgTable('posts', {
+        id: uuid('id'),
+      });
+      export const users = pgTable('users', {
+        id: uuid('id'),
+      });
+      export const postsSelect = pgPolicy('posts_select', { for: 'select' }).link(posts);`,
+      errors: [{ messageId: "missingRLS", data: { table: "users" } }],
+    },
+
+    // Sensitive columns, by name and by type, listed in the report
+    {
+      code: `import { inet, jsonb, pgTable, text, uuid } from 'drizzle-orm/pg-core';
+      export const customers = pgTable('customers', {
+        id: uuid('id'),
+        contactEmail: text('contact_email'),
+        passwordHash: text(),
+        lastSeenFrom: inet('last_seen_from'),
+        metadata: jsonb('metadata'),
+        name: text('name'),
+      });`,
+      errors: [{
+        messageId: "missingRLSForColumns",
+        data: { table: "customers", columns: "contact_email, passwordHash, last_seen_from, metadata" },
+      }],
+    },
+
+    // Custom column patterns
+    {
+      code: `const leads = pgTable('leads', {
+        id: uuid('id'),
+        cardFingerprint: text('card_fingerprint'),
+        notes: jsonb('notes'),
+      })`,
+      options: [{ sensitiveColumns: ["card_fingerprint", { type: "jsonb" }] }],
+      errors: [{
+        messageId: "missingRLSForColumns",
+        data: { table: "leads", columns: "card_fingerprint, notes" },
+      }],
+    },
+
+    // DISABLE undoes an earlier ENABLE, also one declared with Drizzle
+    {
+      code: `const users = pgTable.withRLS('users', {
+        id: uuid('id'),
+      }, () => [
+        pgPolicy('users_select', { for: 'select' }),
+      ]);
+      const accounts = pgTable('accounts', {
+        id: uuid('id'),
+      });
+      sql\`ALTER TABLE accounts ENABLE ROW LEVEL SECURITY\`;
+      sql\`CREATE POLICY accounts_select ON accounts FOR SELECT USING (true)\`;
+      sql\`ALTER TABLE users DISABLE ROW LEVEL SECURITY; ALTER TABLE accounts DISABLE ROW LEVEL SECURITY\`;`,
+      errors: [
+        { messageId: "disabledRLS", data: { table: "users" } },
+        { messageId: "disabledRLS", data: { table: "accounts" } },
+      ],
+    },
+
+    // An application role owning the table bypasses RLS without FORCE
+    {
+      code: `const users = pgTable.withRLS('users', {
+        id: uuid('id'),
+      }, () => [
+        pgPolicy('users_select', { for: 'select' }),
+      ]);
+      const sessions = pgTable.withRLS('sessions', {
+        id: uuid('id'),
+      }, () => [
+        pgPolicy('sessions_select', { for: 'select' }),
+      ]);
+      sql\`
+        ALTER TABLE users OWNER TO app_user;
+        ALTER TABLE sessions OWNER TO "app_user", FORCE ROW LEVEL SECURITY;
+        ALTER TABLE sessions NO FORCE ROW LEVEL SECURITY;
+      \`;`,
+      options: [{ appRoles: ["app_user"] }],
+      errors: [
+        { messageId: "missingForceRLS", data: { table: "users", role: "app_user" } },
+        { messageId: "missingForceRLS", data: { table: "sessions", role: "app_user" } },
+      ],
+    },
+
+    // An opt-out needs a reason
+    {
+      code: `// rls-exempt
+      export const user_settings = pgTable('user_settings', {
+        id: uuid('id'),
+      });`,
+      errors: [{ messageId: "missingExemptReason", data: { table: "user_settings" } }],
+    },
+    // Statements from other files still need policies, and a later DISABLE wins
+    {
+      code: `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+      export const sessions = pgTable('sessions', {
+        id: uuid('id'),
+      });
+      export const payments = pgTable('payments', {
+        id: uuid('id'),
+      });`,
+      options: [{ rlsSources: ["tests/fixtures/rls/migrations/0001_rls.sql"] }],
+      errors: [
+        { messageId: "missingPolicy", data: { table: "sessions" } },
+        { messageId: "missingRLS", data: { table: "payments" } },
+      ],
+    },
+
+    // An interpolated table that is disabled again
+    {
+      code: `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+      export const users = pgTable.withRLS('users', {
+        id: uuid('id'),
+      });
+      sql\`ALTER TABLE \${users} DISABLE ROW LEVEL SECURITY\`;`,
+      errors: [{ messageId: "disabledRLS", data: { table: "users" } }],
+    },
+
+    // This file's statements apply after the sources
+    {
+      code: `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+      export const users = pgTable('users', {
+        id: uuid('id'),
+      });
+      sql\`ALTER TABLE users DISABLE ROW LEVEL SECURITY\`;`,
+      options: [{ rlsSources: ["tests/fixtures/rls/migrations/*.sql"] }],
+      errors: [{ messageId: "disabledRLS", data: { table: "users" } }],
+    },
   ],
 });
\ No newline at end of file
@@ -0,0 +1,103 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import requireWhereNotUndefinedRule from "../src/require-where-not-undefined";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+ruleTester.run("require-where-not-undefined", requireWhereNotUndefinedRule, {
+  valid: [
+    "db.delete(users).where(eq(users.id, id));",
+    "db.update(users).set({ name }).where(and(eq(users.orgId, orgId), ...filters));",
+    "db.update(users).set({ name }).where(or(eq(users.id, id), maybe ? eq(users.email, email) : undefined));",
+    "const condition = eq(users.id, id); db.delete(users).where(condition);",
+    "db.delete(users).where(filter!);",
+
+    // Selects do not touch every row
+    "db.select().from(users).where(and(...filters));",
+
+    // Another library's `and`
+    `import { and } from "./conditions";
+    db.delete(users).where(and(...filters));`,
+  ],
+  invalid: [
+    {
+      code: "db.delete(users).where(and(...filters));",
+      errors: [{ messageId: "whereMayBeUndefined", data: { method: "delete" } }],
+    },
+    {
+      code: `import { or as any_ } from "drizzle-orm";
+      db.update(users).set({ active: false }).where(any_(a ? eq(users.id, a) : undefined, ...rest));`,
+      errors: [{ messageId: "whereMayBeUndefined", data: { method: "update" } }],
+    },
+    {
+      code: "db.delete(sessions).where(expired ? lt(sessions.expiresAt, now) : undefined);",
+      errors: [{ messageId: "whereMayBeUndefined" }],
+    },
+    {
+      code: `const condition = and(...conditions);
+      const query = db.delete(users).$dynamic();
+      await query.where(condition);`,
+      errors: [{ messageId: "whereMayBeUndefined" }],
+    },
+    {
+      code: "db.delete(users).where();",
+      errors: [{ messageId: "whereMayBeUndefined" }],
+    },
+  ],
+});
+
+const typedRuleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+      projectService: {
+        allowDefaultProject: ["*.ts"],
+        defaultProject: "../tsconfig.json",
+      },
+      tsconfigRootDir: __dirname,
+    },
+  },
+});
+
+const drizzleTypes = `
+  declare class SQL { private brand: true }
+  declare class PgDatabase { delete(table: unknown): { where(condition: SQL | undefined): unknown } }
+  declare const db: PgDatabase;
+  declare const users: unknown;
+  declare function eq(a: unknown, b: unknown): SQL;
+  declare function buildFilter(): SQL | undefined;
+`;
+
+typedRuleTester.run("require-where-not-undefined (type-aware)", requireWhereNotUndefinedRule, {
+  valid: [
+    `${drizzleTypes}
+    declare const condition: SQL;
+    db.delete(users).where(condition);`,
+    `${drizzleTypes}
+    db.delete(users).where(eq(users, 1));`,
+  ],
+  invalid: [
+    {
+      code: `${drizzleTypes}
+      declare const condition: SQL | undefined;
+      db.delete(users).where(condition);`,
+      errors: [{ messageId: "whereMayBeUndefined" }],
+    },
+    {
+      code: `${drizzleTypes}
+      db.delete(users).where(buildFilter());`,
+      errors: [{ messageId: "whereMayBeUndefined" }],
+    },
+  ],
+});
@@ -37,30 +37,200 @@ ruleTester.run("enforce-snake-case-naming", snakeCaseRule, {
       token_v2: text('token_v2'),
       expires_in_30_days: boolean('expires_in_30_days'),
     })`,
+
+    // The database name is checked, not the key
+    `const users = pgTable('users', (t) => ({
+      id: t.uuid('id'),
+      firstName: t.text('first_name'),
+    }))`,
+
+    // Drizzle derives snake_case names from keys
+    {
+      code: `const users = pgTable('users', {
+        userId: uuid(),
+        displayName: text({ enum: ['a', 'b'] }),
+      })`,
+      options: [{ casing: "snake_case" }],
+    },
+
+    // Names passed through a variable are not known
+    `const users = pgTable('users', {
+      userId: uuid(USER_ID_COLUMN),
+    })`,
+
+    // Keys that match their database name
+    {
+      code: `const users = pgTable('users', {
+        userId: uuid('user_id'),
+        email: text('email'),
+        last_name: text('last_name'),
+      })`,
+      options: [{ requireCamelCaseKeys: true }],
+    },
   ],
   invalid: [
-    // camelCase table name
+    // camelCase table name, renamed by a suggestion since it changes the schema
     {
       code: `const userProfiles = pgTable('userProfiles', {
         id: uuid('id'),
       })`,
-      errors: [{ 
-        messageId: "useSnakeCase",
-        data: { name: "userProfiles" }
-      }],
+      errors: [
+        {
+          messageId: "useSnakeCase",
+          data: { name: "userProfiles" },
+          suggestions: [
+            {
+              messageId: "renameTable",
+              data: { expected: "user_profiles" },
+              output: `const userProfiles = pgTable('user_profiles', {
+        id: uuid('id'),
+      })`,
+            },
+          ],
+        },
+      ],
     },
-    
+
     // PascalCase table name
     {
       code: `const UserSettings = pgTable('UserSettings', {
         id: uuid('id'),
       })`,
-      errors: [{ 
-        messageId: "useSnakeCase",
-        data: { name: "UserSettings" }
-      }],
+      errors: [
+        {
+          messageId: "useSnakeCase",
+          data: { name: "UserSettings" },
+          suggestions: [
+            {
+              messageId: "renameTable",
+              data: { expected: "user_settings" },
+              output: `const UserSettings = pgTable('user_settings', {
+        id: uuid('id'),
+      })`,
+            },
+          ],
+        },
+      ],
     },
-    
+
+    // Column builder callback
+    {
+      code: `const users = pgTable('users', (t) => ({
+        id: t.uuid('id'),
+        userId: t.uuid('userID'),
+      }))`,
+      errors: [
+        {
+          messageId: "useSnakeCase",
+          data: { name: "userID" },
+          suggestions: [
+            {
+              messageId: "renameColumn",
+              data: { expected: "user_id" },
+              output: `const users = pgTable('users', (t) => ({
+        id: t.uuid('id'),
+        userId: t.uuid('user_id'),
+      }))`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Names derived from camelCase keys
+    {
+      code: `const users = pgTable("users", {
+        userId: uuid(),
+        role: text({ enum: ["admin", "member"] }),
+        displayName: text({ enum: ["a", "b"] }),
+      })`,
+      errors: [
+        {
+          messageId: "useSnakeCase",
+          data: { name: "userId" },
+          suggestions: [
+            {
+              messageId: "renameColumn",
+              data: { expected: "user_id" },
+              output: `const users = pgTable("users", {
+        userId: uuid("user_id"),
+        role: text({ enum: ["admin", "member"] }),
+        displayName: text({ enum: ["a", "b"] }),
+      })`,
+            },
+          ],
+        },
+        {
+          messageId: "useSnakeCase",
+          data: { name: "displayName" },
+          suggestions: [
+            {
+              messageId: "renameColumn",
+              data: { expected: "display_name" },
+              output: `const users = pgTable("users", {
+        userId: uuid(),
+        role: text({ enum: ["admin", "member"] }),
+        displayName: text("display_name", { enum: ["a", "b"] }),
+      })`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Drizzle's camelCase mode keeps keys as they are
+    {
+      code: `const users = pgTable('users', {
+        user_id: uuid(),
+      })`,
+      options: [{ casing: "camelCase" }],
+      errors: [
+        {
+          messageId: "useSnakeCase",
+          data: { name: "userId" },
+          suggestions: [
+            {
+              messageId: "renameColumn",
+              data: { expected: "user_id" },
+              output: `const users = pgTable('users', {
+        user_id: uuid("user_id"),
+      })`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // Key does not match the database name
+    {
+      code: `const users = pgTable('users', {
+        userId: uuid('account_id'),
+      })`,
+      options: [{ requireCamelCaseKeys: true }],
+      errors: [
+        {
+          messageId: "keyMismatch",
+          data: { key: "userId", name: "account_id", expected: "accountId" },
+          suggestions: [
+            {
+              messageId: "renameKey",
+              data: { expected: "accountId" },
+              output: `const users = pgTable('users', {
+        accountId: uuid('account_id'),
+      })`,
+            },
+            {
+              messageId: "renameColumn",
+              data: { expected: "user_id" },
+              output: `const users = pgTable('users', {
+        userId: uuid('user_id'),
+      })`,
+            },
+          ],
+        },
+      ],
+    },
+
     // camelCase column names
     {
       code: `const users = pgTable('users', {
@@ -69,11 +239,39 @@ ruleTester.run("enforce-snake-case-naming", snakeCaseRule, {
         lastName: text('lastName'),
       })`,
       errors: [
-        { messageId: "useSnakeCase", data: { name: "firstName" } },
-        { messageId: "useSnakeCase", data: { name: "lastName" } },
+        {
+          messageId: "useSnakeCase",
+          data: { name: "firstName" },
+          suggestions: [
+            {
+              messageId: "renameColumn",
+              data: { expected: "first_name" },
+              output: `const users = pgTable('users', {
+        id: uuid('id'),
+        firstName: text('first_name'),
+        lastName: text('lastName'),
+      })`,
+            },
+          ],
+        },
+        {
+          messageId: "useSnakeCase",
+          data: { name: "lastName" },
+          suggestions: [
+            {
+              messageId: "renameColumn",
+              data: { expected: "last_name" },
+              output: `const users = pgTable('users', {
+        id: uuid('id'),
+        firstName: text('firstName'),
+        lastName: text('last_name'),
+      })`,
+            },
+          ],
+        },
       ],
     },
-    
+
     // Mixed case issues
     {
       code: `const UserPosts = pgTable('UserPosts', {
@@ -82,10 +280,66 @@ ruleTester.run("enforce-snake-case-naming", snakeCaseRule, {
         publishedAt: timestamp('publishedAt'),
       })`,
       errors: [
-        { messageId: "useSnakeCase", data: { name: "UserPosts" } },
-        { messageId: "useSnakeCase", data: { name: "postId" } },
-        { messageId: "useSnakeCase", data: { name: "userId" } },
-        { messageId: "useSnakeCase", data: { name: "publishedAt" } },
+        {
+          messageId: "useSnakeCase",
+          data: { name: "UserPosts" },
+          suggestions: [
+            {
+              messageId: "renameTable",
+              data: { expected: "user_posts" },
+              output: `const UserPosts = pgTable('user_posts', {
+        postId: uuid('postId'),
+        userId: uuid('userId'),
+        publishedAt: timestamp('publishedAt'),
+      })`,
+            },
+          ],
+        },
+        {
+          messageId: "useSnakeCase",
+          data: { name: "postId" },
+          suggestions: [
+            {
+              messageId: "renameColumn",
+              data: { expected: "post_id" },
+              output: `const UserPosts = pgTable('UserPosts', {
+        postId: uuid('post_id'),
+        userId: uuid('userId'),
+        publishedAt: timestamp('publishedAt'),
+      })`,
+            },
+          ],
+        },
+        {
+          messageId: "useSnakeCase",
+          data: { name: "userId" },
+          suggestions: [
+            {
+              messageId: "renameColumn",
+              data: { expected: "user_id" },
+              output: `const UserPosts = pgTable('UserPosts', {
+        postId: uuid('postId'),
+        userId: uuid('user_id'),
+        publishedAt: timestamp('publishedAt'),
+      })`,
+            },
+          ],
+        },
+        {
+          messageId: "useSnakeCase",
+          data: { name: "publishedAt" },
+          suggestions: [
+            {
+              messageId: "renameColumn",
+              data: { expected: "published_at" },
+              output: `const UserPosts = pgTable('UserPosts', {
+        postId: uuid('postId'),
+        userId: uuid('userId'),
+        publishedAt: timestamp('published_at'),
+      })`,
+            },
+          ],
+        },
       ],
     },
   ],
@@ -0,0 +1,168 @@
+// @ts-ignore - RuleTester types are complex
+import { RuleTester } from "@typescript-eslint/rule-tester";
+
+import timestampColumnsRule from "../src/require-timestamp-columns";
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: require("@typescript-eslint/parser"),
+    parserOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+    },
+  },
+});
+
+ruleTester.run("require-timestamp-columns", timestampColumnsRule, {
+  valid: [
+    `const users = pgTable('users', {
+      id: uuid('id'),
+      created_at: timestamp('created_at').defaultNow(),
+      updated_at: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()),
+    })`,
+
+    // camelCase keys and builder-derived names
+    `const posts = pgTable('posts', {
+      id: uuid('id'),
+      createdAt: timestamp().defaultNow(),
+      updatedAt: timestamp().defaultNow().$onUpdateFn(() => new Date()),
+    })`,
+
+    // Shared timestamp helpers are trusted
+    `const posts = pgTable('posts', {
+      id: uuid('id'),
+      ...timestamps,
+    })`,
+    `const posts = pgTable('posts', {
+      id: uuid('id'),
+      created_at: timestamps.createdAt,
+      updated_at: timestamps.updatedAt,
+    })`,
+
+    {
+      code: `const logs = pgTable('logs', { id: uuid('id') })`,
+      options: [{ ignoreTables: ["logs"] }],
+    },
+
+    // Configured columns
+    {
+      code: `const events = pgTable('events', {
+        id: uuid('id'),
+        inserted_at: timestamp('inserted_at').defaultNow(),
+      })`,
+      options: [{ columns: [{ name: "inserted_at" }] }],
+    },
+  ],
+  invalid: [
+    {
+      code: `import { pgTable, uuid } from 'drizzle-orm/pg-core';
+      const users = pgTable('users', {
+        id: uuid('id'),
+      });`,
+      output: `import { pgTable, uuid, timestamp } from 'drizzle-orm/pg-core';
+      const users = pgTable('users', {
+        id: uuid('id'),
+        created_at: timestamp("created_at").defaultNow().notNull(),
+        updated_at: timestamp("updated_at").defaultNow().notNull().$onUpdate(() => new Date()),
+      });`,
+      errors: [
+        {
+          messageId: "missingTimestamps",
+          data: { tableName: "users", columns: "created_at and updated_at" },
+        },
+      ],
+    },
+
+    // Only the missing column, camelCase keys, namespace imports
+    {
+      code: `import * as pg from 'drizzle-orm/pg-core';
+      const posts = pg.pgTable('posts', {
+        id: pg.uuid('id'),
+        createdAt: pg.timestamp('created_at').defaultNow()
+      });`,
+      output: `import * as pg from 'drizzle-orm/pg-core';
+      const posts = pg.pgTable('posts', {
+        id: pg.uuid('id'),
+        createdAt: pg.timestamp('created_at').defaultNow(),
+        updatedAt: pg.timestamp("updated_at").defaultNow().notNull().$onUpdate(() => new Date()),
+      });`,
+      errors: [
+        {
+          messageId: "missingTimestamps",
+          data: { tableName: "posts", columns: "updated_at" },
+        },
+      ],
+    },
+
+    // An empty columns object is indented from its line, not its brace
+    {
+      code: `import { pgTable, timestamp } from 'drizzle-orm/pg-core';
+      export const users = pgTable("users", {});`,
+      output: `import { pgTable, timestamp } from 'drizzle-orm/pg-core';
+      export const users = pgTable("users", {
+        created_at: timestamp("created_at").defaultNow().notNull(),
+        updated_at: timestamp("updated_at").defaultNow().notNull().$onUpdate(() => new Date()),
+      });`,
+      errors: [
+        {
+          messageId: "missingTimestamps",
+          data: { tableName: "users", columns: "created_at and updated_at" },
+        },
+      ],
+    },
+
+    // Callback columns and a configured definition
+    {
+      code: `const orders = pgTable('orders', (t) => ({
+        id: t.uuid(),
+      }));`,
+      output: `const orders = pgTable('orders', (t) => ({
+        id: t.uuid(),
+        created_at: t.timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+      }));`,
+      options: [
+        {
+          columns: [
+            {
+              name: "created_at",
+              definition: 'timestamp("created_at", { withTimezone: true }).defaultNow().notNull()',
+            },
+          ],
+        },
+      ],
+      errors: [{ messageId: "missingTimestamps", data: { tableName: "orders", columns: "created_at" } }],
+    },
+
+    // updated_at that is never maintained
+    {
+      code: `const users = pgTable('users', {
+        id: uuid('id'),
+        created_at: timestamp('created_at').defaultNow(),
+        updated_at: timestamp('updated_at').defaultNow(),
+      })`,
+      errors: [
+        {
+          messageId: "missingOnUpdate",
+          data: { column: "updated_at", tableName: "users" },
+          suggestions: [
+            {
+              messageId: "addOnUpdate",
+              output: `const users = pgTable('users', {
+        id: uuid('id'),
+        created_at: timestamp('created_at').defaultNow(),
+        updated_at: timestamp('updated_at').defaultNow().$onUpdate(() => new Date()),
+      })`,
+            },
+          ],
+        },
+      ],
+    },
+
+    // SQLite has no default definition to insert
+    {
+      code: `const notes = sqliteTable('notes', { id: integer('id') })`,
+      output: null,
+      errors: [{ messageId: "missingTimestamps" }],
+    },
+  ],
+});
@@ -26,6 +26,23 @@ ruleTester.run("my-rule", myRule, {
       .update()
       .set()
       .where()`,
+    "await db.update(users).set({ active: false }).where(eq(users.id, id)).returning();",
+    `const q = db.update(users).set({ active: false });
+    await q.where(eq(users.id, id));`,
+    `const q = db.update(users).set({ active: false }).$dynamic();
+    return applyFilters(q);`,
+    {
+      code: "store.update(key).set(value)",
+      options: [{ drizzleObjectName: ["db", "database"] }],
+    },
+
+    // Raw SQL with a WHERE clause, or not an UPDATE statement
+    "await db.execute(sql`UPDATE users SET active = false WHERE id = ${id}`);",
+    // The interpolated fragment may hold the WHERE
+    "await db.execute(sql`UPDATE users SET name = ${n} ${whereClause}`);",
+    "await db.execute(sql`UPDATE users SET ${values} ${where}`);",
+    "sql`SELECT * FROM jobs WHERE id = ${id} FOR UPDATE`;",
+    "sql`INSERT INTO counters (id) VALUES (1) ON CONFLICT (id) DO UPDATE SET n = counters.n + 1`;",
   ],
   invalid: [
     {
@@ -46,5 +63,30 @@ ruleTester.run("my-rule", myRule, {
         .set()`,
       errors: [{ messageId: "enforceUpdateWithWhere" }],
     },
+    {
+      code: `await db.select().from(users).where(eq(users.id, id));
+      await db.update(users).set({ active: false }).returning();`,
+      errors: [{ messageId: "enforceUpdateWithWhere" }],
+    },
+    {
+      code: "database.update(users).set({ active: false })",
+      options: [{ drizzleObjectName: ["db", "database"] }],
+      errors: [{ messageId: "enforceUpdateWithWhere" }],
+    },
+
+    // Raw SQL
+    {
+      code: "await db.execute(sql`UPDATE users SET active = false`);",
+      errors: [{ messageId: "enforceUpdateWithWhereRaw" }],
+    },
+    {
+      code: "await db.execute(sql`UPDATE users SET plan = (SELECT plan FROM plans WHERE is_default)`);",
+      errors: [{ messageId: "enforceUpdateWithWhereRaw" }],
+    },
+    // Interpolated values in the SET list can't add a WHERE
+    {
+      code: "await db.execute(sql`UPDATE users SET name = ${name}, plan = ${plan}`);",
+      errors: [{ messageId: "enforceUpdateWithWhereRaw" }],
+    },
   ],
 });
\ No newline at end of file
@@ -83,6 +83,22 @@ ruleTester.run("enforce-uuid-indexes", uuidIndexRule, {
       compositeIdx: index('logs_composite_idx').on(table.id, table.timestamp),
     }))`,
     
+    // Extras callback returning an array
+    `const members = pgTable('members', {
+      id: uuid('id').primaryKey(),
+      orgId: uuid('org_id'),
+    }, (table) => [
+      index('members_org_id_idx').on(table.orgId),
+    ])`,
+
+    // Composite primary key constraint
+    `const user_roles = pgTable('user_roles', {
+      userId: uuid('user_id'),
+      roleId: uuid('role_id'),
+    }, (table) => [
+      primaryKey({ columns: [table.userId, table.roleId] }),
+    ])`,
+
     // UUID with default value and index
     `const apiKeys = pgTable('api_keys', {
       key: uuid('key').defaultRandom().primaryKey(),